@@ -0,0 +1,94 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { adminRequired, getSessionUser, isAdmin, unauthorized } from '@/lib/auth';
+import { parseQuotaLimits } from '@/lib/quotas';
+
+// Accepts any of `name`, `limits` (replaces the plan's limits) and `isDefault`
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+    if (!isAdmin(user)) {
+      return adminRequired();
+    }
+
+    const plan = await prisma.quotaPlan.findUnique({ where: { id: params.id } });
+    if (!plan) {
+      return NextResponse.json({ error: 'Plan not found' }, { status: 404 });
+    }
+
+    const { name, limits, isDefault } = await request.json();
+    if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+      return NextResponse.json({ error: 'Name must be a non-empty string' }, { status: 400 });
+    }
+    if (isDefault !== undefined && typeof isDefault !== 'boolean') {
+      return NextResponse.json({ error: 'isDefault must be a boolean' }, { status: 400 });
+    }
+    const parsed = limits === undefined ? undefined : parseQuotaLimits(limits);
+    if (parsed?.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    if (name !== undefined && name.trim() !== plan.name) {
+      if (await prisma.quotaPlan.findUnique({ where: { name: name.trim() } })) {
+        return NextResponse.json({ error: 'A plan with this name already exists' }, { status: 409 });
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (isDefault) {
+        await tx.quotaPlan.updateMany({ where: { isDefault: true, id: { not: plan.id } }, data: { isDefault: false } });
+      }
+      return tx.quotaPlan.update({
+        where: { id: plan.id },
+        data: {
+          ...(name !== undefined ? { name: name.trim() } : {}),
+          ...(parsed ? { limits: parsed.data as any } : {}),
+          ...(isDefault !== undefined ? { isDefault } : {})
+        }
+      });
+    });
+
+    return NextResponse.json({ plan: updated });
+
+  } catch (error) {
+    console.error('Update quota plan error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update quota plan' },
+      { status: 500 }
+    );
+  }
+}
+
+// Users on the plan fall back to the default plan
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+    if (!isAdmin(user)) {
+      return adminRequired();
+    }
+
+    const plan = await prisma.quotaPlan.findUnique({ where: { id: params.id } });
+    if (!plan) {
+      return NextResponse.json({ error: 'Plan not found' }, { status: 404 });
+    }
+
+    await prisma.quotaPlan.delete({ where: { id: plan.id } });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Delete quota plan error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete quota plan' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { adminRequired, getSessionUser, isAdmin, unauthorized } from '@/lib/auth';
+import { parseQuotaLimits } from '@/lib/quotas';
+
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+    if (!isAdmin(user)) {
+      return adminRequired();
+    }
+
+    const plans = await prisma.quotaPlan.findMany({
+      include: { _count: { select: { users: true } } },
+      orderBy: { name: 'asc' }
+    });
+
+    return NextResponse.json({
+      plans: plans.map(({ _count, ...plan }) => ({ ...plan, userCount: _count.users }))
+    });
+
+  } catch (error) {
+    console.error('List quota plans error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch quota plans' },
+      { status: 500 }
+    );
+  }
+}
+
+// Creates a plan from `name`, `limits` and `isDefault`; a new default plan replaces the old one
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+    if (!isAdmin(user)) {
+      return adminRequired();
+    }
+
+    const { name, limits, isDefault = false } = await request.json();
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+    if (typeof isDefault !== 'boolean') {
+      return NextResponse.json({ error: 'isDefault must be a boolean' }, { status: 400 });
+    }
+    const parsed = parseQuotaLimits(limits ?? {});
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    if (await prisma.quotaPlan.findUnique({ where: { name: name.trim() } })) {
+      return NextResponse.json({ error: 'A plan with this name already exists' }, { status: 409 });
+    }
+
+    const plan = await prisma.$transaction(async (tx) => {
+      if (isDefault) {
+        await tx.quotaPlan.updateMany({ where: { isDefault: true }, data: { isDefault: false } });
+      }
+      return tx.quotaPlan.create({
+        data: { name: name.trim(), limits: parsed.data as any, isDefault }
+      });
+    });
+
+    return NextResponse.json({ plan }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create quota plan error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create quota plan' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { adminRequired, getSessionUser, isAdmin, unauthorized } from '@/lib/auth';
+import { getQuotaStatus, parseQuotaLimits, resolveQuotaLimits } from '@/lib/quotas';
+
+async function describeQuotas(userId: string) {
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: userId } });
+  const [{ plan, limits }, quotas] = await Promise.all([
+    resolveQuotaLimits(userId),
+    getQuotaStatus(userId, { all: true })
+  ]);
+
+  return { planId: user.quotaPlanId, plan, userLimits: user.quotaLimits, limits, quotas };
+}
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const admin = await getSessionUser();
+    if (!admin) {
+      return unauthorized();
+    }
+    if (!isAdmin(admin)) {
+      return adminRequired();
+    }
+
+    if (!(await prisma.user.findUnique({ where: { id: params.id }, select: { id: true } }))) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(await describeQuotas(params.id));
+
+  } catch (error) {
+    console.error('Get user quotas error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch user quotas' },
+      { status: 500 }
+    );
+  }
+}
+
+// `planId` moves the user to a plan (null for the default one); `limits` replaces their own limits (null clears them)
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const admin = await getSessionUser();
+    if (!admin) {
+      return unauthorized();
+    }
+    if (!isAdmin(admin)) {
+      return adminRequired();
+    }
+
+    if (!(await prisma.user.findUnique({ where: { id: params.id }, select: { id: true } }))) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const { planId, limits } = await request.json();
+    if (planId !== undefined && planId !== null && typeof planId !== 'string') {
+      return NextResponse.json({ error: 'planId must be a string or null' }, { status: 400 });
+    }
+    if (planId && !(await prisma.quotaPlan.findUnique({ where: { id: planId } }))) {
+      return NextResponse.json({ error: 'Plan not found' }, { status: 404 });
+    }
+    const parsed = limits === undefined || limits === null ? undefined : parseQuotaLimits(limits);
+    if (parsed?.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    await prisma.user.update({
+      where: { id: params.id },
+      data: {
+        ...(planId !== undefined ? { quotaPlanId: planId } : {}),
+        ...(limits === null ? { quotaLimits: Prisma.DbNull } : parsed ? { quotaLimits: parsed.data as any } : {})
+      }
+    });
+
+    return NextResponse.json(await describeQuotas(params.id));
+
+  } catch (error) {
+    console.error('Update user quotas error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update user quotas' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { RegistrationError, registerUser } from '@/lib/auth';
+
+// Creates an email/password account; the client signs in with it afterwards
+export async function POST(request: NextRequest) {
+  try {
+    const { email, password, name } = await request.json();
+
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      return NextResponse.json({ error: 'Email and password are required' }, { status: 400 });
+    }
+    if (name !== undefined && name !== null && typeof name !== 'string') {
+      return NextResponse.json({ error: 'Name must be a string' }, { status: 400 });
+    }
+
+    const user = await registerUser({ email, password, name });
+
+    return NextResponse.json({ user: { id: user.id, email: user.email, name: user.name } }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof RegistrationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Registration error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create account' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,42 +2,107 @@ export const dynamic = "force-dynamic";
 
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { forbidden, getAllowedTools, getRequestAuth, hasScope, unauthorized } from '@/lib/auth';
+import { findLLMConfig, parseLLMSelection } from '@/lib/llm/config';
+import { loadAttachmentFiles, parseFileIds } from '@/lib/chat/attachments';
+import { findPersona } from '@/lib/chat/personas';
+import { ensureMessageTree } from '@/lib/chat/tree';
+import { runChatTurn } from '@/lib/chat/turn';
+import { ToolRegistry } from '@/lib/tools/tool-registry';
+import { limitRequest } from '@/lib/rate-limit';
+import { QuotaExceededError, assertQuota, quotaExceeded } from '@/lib/quotas';
+import {
+  accessibleBy,
+  canAccess,
+  getWorkspaceRole,
+  resolveWorkspaceScope,
+  workspaceForbidden,
+  workspaceNotFound
+} from '@/lib/workspaces';
 
 const prisma = new PrismaClient();
+const toolRegistry = new ToolRegistry();
 
 export async function POST(request: NextRequest) {
   try {
-    const { message, conversationId, files } = await request.json();
+    const { message, conversationId, fileIds, llmConfigId, provider, model, personaId, stream = false } = await request.json();
+    const llmSelection = parseLLMSelection({ configId: llmConfigId, provider, model });
+    // Files are uploaded through /api/files first and referenced here by id
+    const attachments = parseFileIds(fileIds);
 
     // Validate input
     if (!message || typeof message !== 'string') {
       return NextResponse.json({ error: 'Message is required' }, { status: 400 });
     }
+    // A persona id selects that persona for the conversation, null switches back to the default
+    if (personaId !== undefined && personaId !== null && typeof personaId !== 'string') {
+      return NextResponse.json({ error: 'personaId must be a string or null' }, { status: 400 });
+    }
+    if (attachments.error !== undefined) {
+      return NextResponse.json({ error: attachments.error }, { status: 400 });
+    }
+
+    // Scripts authenticate with an API token carrying the `chat` scope
+    const auth = await getRequestAuth(request);
+    if (!auth) {
+      return unauthorized();
+    }
+    if (!hasScope(auth, 'chat')) {
+      return forbidden('chat');
+    }
+    const limited = await limitRequest(request, auth, ['chat']);
+    if (limited) {
+      return limited;
+    }
+    const { user } = auth;
+    // Before a new conversation is created for a turn that would be refused
+    await assertQuota(user.id, 'llmTokens');
 
-    // Get or create conversation
+    // Get or create conversation; workspace viewers may read a conversation but not add to it
     let conversation;
     if (conversationId) {
-      conversation = await prisma.conversation.findUnique({
-        where: { id: conversationId },
-        include: { messages: { orderBy: { createdAt: 'asc' } } }
+      const owned = await prisma.conversation.findFirst({
+        where: { id: conversationId, ...accessibleBy(user.id) },
+        select: { id: true, workspaceId: true }
       });
-    } else {
-      // Create new conversation with a default user
-      const user = await prisma.user.upsert({
-        where: { sessionId: 'default-session' },
-        update: {},
-        create: {
-          sessionId: 'default-session',
-          language: 'en'
+      if (owned) {
+        if (!canAccess(await getWorkspaceRole(user.id, owned.workspaceId), 'write')) {
+          return workspaceForbidden('write');
         }
-      });
+        await ensureMessageTree(owned.id);
+        conversation = await prisma.conversation.findUnique({
+          where: { id: owned.id },
+          include: { messages: { orderBy: { createdAt: 'asc' } }, user: true }
+        });
+      }
+    } else {
+      // New conversations go to the active workspace, or the one named by X-Workspace-Id
+      const scope = await resolveWorkspaceScope(request, user);
+      if (!scope) {
+        return workspaceNotFound();
+      }
+      if (!canAccess(scope.role, 'write')) {
+        return workspaceForbidden('write');
+      }
+      if (personaId && !(await findPersona(user.id, personaId))) {
+        return NextResponse.json({ error: 'Persona not found' }, { status: 404 });
+      }
+      if (llmSelection?.configId && !(await findLLMConfig(user.id, llmSelection.configId, scope.workspaceId))) {
+        return NextResponse.json({ error: 'LLM configuration not found' }, { status: 404 });
+      }
+      const { missing } = await loadAttachmentFiles(user.id, attachments.data, scope.workspaceId);
+      if (missing.length > 0) {
+        return NextResponse.json({ error: 'File not found', fileIds: missing }, { status: 404 });
+      }
 
       conversation = await prisma.conversation.create({
         data: {
           userId: user.id,
+          workspaceId: scope.workspaceId,
           title: message.slice(0, 50) + (message.length > 50 ? '...' : ''),
+          metadata: llmSelection || personaId ? { llm: llmSelection, personaId } as any : undefined
         },
-        include: { messages: true }
+        include: { messages: true, user: true }
       });
     }
 
@@ -45,88 +110,25 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
     }
 
-    // Save user message
-    const userMessage = await prisma.message.create({
-      data: {
-        conversationId: conversation.id,
-        role: 'user',
-        content: message,
-        metadata: files ? { attachments: files } : undefined
-      }
-    });
-
-    // Prepare messages for LLM
-    const messages = [
-      ...conversation.messages.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      })),
-      { role: 'user', content: message }
-    ];
-
-    // Call LLM API (using OpenAI as fallback)
-    const apiKey = process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY || process.env.DEEPSEEK_API_KEY;
-    const apiUrl = process.env.OPENAI_API_KEY ? 'https://api.openai.com/v1/chat/completions' : 'https://api.anthropic.com/v1/messages';
-    
-    const llmResponse = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: process.env.OPENAI_API_KEY ? 'gpt-4' : 'claude-3-sonnet-20240229',
-        messages: [
-          {
-            role: 'system',
-            content: `You are Avilink, an advanced AI assistant with access to powerful tools including:
-- DeepSearch: Web search across 20+ credible sources
-- Python Execution: Run Python code securely
-- File Processing: Analyze PDFs, Word docs, Excel, images
-- Web Browsing: Browse and analyze web content
-
-You can execute tools when needed to help users. Be helpful, accurate, and efficient.`
-          },
-          ...messages
-        ],
-        temperature: 0.7,
-        max_tokens: 2000
-      })
-    });
-
-    if (!llmResponse.ok) {
-      throw new Error(`LLM API error: ${llmResponse.status}`);
-    }
-
-    const llmData = await llmResponse.json();
-    const assistantMessage = llmData.choices?.[0]?.message?.content || llmData.content?.[0]?.text || 'I apologize, but I encountered an error processing your request.';
-
-    // Save assistant message
-    const savedAssistantMessage = await prisma.message.create({
-      data: {
-        conversationId: conversation.id,
-        role: 'assistant',
-        content: assistantMessage
-      }
-    });
-
-    // Update conversation timestamp
-    await prisma.conversation.update({
-      where: { id: conversation.id },
-      data: { updatedAt: new Date() }
-    });
-
-    return NextResponse.json({
-      conversationId: conversation.id,
-      message: {
-        id: savedAssistantMessage.id,
-        role: 'assistant',
-        content: assistantMessage,
-        createdAt: savedAssistantMessage.createdAt
-      }
+    // New messages continue the active branch
+    return await runChatTurn({
+      conversation,
+      content: message,
+      parentId: conversation.activeLeafId,
+      fileIds: attachments.data,
+      llmSelection,
+      personaId,
+      stream,
+      signal: request.signal,
+      // A token's chat only offers the tools its scopes allow
+      allowedTools: getAllowedTools(auth, toolRegistry.listTools()),
+      userId: user.id
     });
 
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceeded(error);
+    }
     console.error('Chat API error:', error);
     return NextResponse.json(
       { error: 'Failed to process chat message' },
@@ -134,38 +136,3 @@ You can execute tools when needed to help users. Be helpful, accurate, and effic
     );
   }
 }
-
-export async function GET(request: NextRequest) {
-  try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId') || 'default-session';
-
-    // Get user and their conversations
-    const user = await prisma.user.findUnique({
-      where: { sessionId: userId },
-      include: {
-        conversations: {
-          include: {
-            messages: {
-              orderBy: { createdAt: 'asc' }
-            }
-          },
-          orderBy: { updatedAt: 'desc' }
-        }
-      }
-    });
-
-    if (!user) {
-      return NextResponse.json({ conversations: [] });
-    }
-
-    return NextResponse.json({ conversations: user.conversations });
-
-  } catch (error) {
-    console.error('Get conversations error:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch conversations' },
-      { status: 500 }
-    );
-  }
-}
\ No newline at end of file
@@ -0,0 +1,75 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { ensureMessageTree } from '@/lib/chat/tree';
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  buildConversationExport,
+  exportFilename,
+  renderHTML,
+  renderMarkdown
+} from '@/lib/chat/export';
+import { accessibleBy } from '@/lib/workspaces';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  markdown: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8'
+};
+
+/**
+ * Downloads the conversation as `?format=json` (default; lossless, re-importable through
+ * POST /api/conversations/import), `markdown` or `html` (the active branch, for reading).
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'json') as ExportFormat;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({ error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+    }
+
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const owned = await prisma.conversation.findFirst({ where: { id: params.id, ...accessibleBy(user.id) }, select: { id: true } });
+    if (!owned) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    // Older conversations get their parent links before the branch structure is exported
+    await ensureMessageTree(owned.id);
+    const conversation = await prisma.conversation.findUniqueOrThrow({ where: { id: owned.id } });
+    const messages = await prisma.message.findMany({
+      where: { conversationId: conversation.id },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    });
+
+    const data = buildConversationExport(conversation, messages);
+    const body = format === 'markdown'
+      ? renderMarkdown(data)
+      : format === 'html'
+        ? renderHTML(data)
+        : JSON.stringify(data, null, 2);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${exportFilename(conversation.title, format)}"`
+      }
+    });
+
+  } catch (error) {
+    console.error('Export conversation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export conversation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { forbidden, getRequestAuth, hasScope, unauthorized } from '@/lib/auth';
+import { parseLLMSelection } from '@/lib/llm/config';
+import { getAttachmentFileIds, parseFileIds } from '@/lib/chat/attachments';
+import { ensureMessageTree } from '@/lib/chat/tree';
+import { runChatTurn } from '@/lib/chat/turn';
+import { limitRequest } from '@/lib/rate-limit';
+import { accessibleBy, canAccess, getWorkspaceRole, workspaceForbidden } from '@/lib/workspaces';
+
+async function findUserConversation(userId: string, id: string) {
+  const conversation = await prisma.conversation.findFirst({ where: { id, ...accessibleBy(userId) }, select: { id: true } });
+  if (!conversation) return null;
+
+  await ensureMessageTree(conversation.id);
+  return prisma.conversation.findUnique({
+    where: { id: conversation.id },
+    include: { messages: { orderBy: { createdAt: 'asc' } }, user: true }
+  });
+}
+
+/**
+ * Sends an edited version of a user message. The edit becomes a sibling of the original, so
+ * the original branch stays available, and the assistant answers it on the new branch.
+ * Accepts the same `fileIds`, `stream`, model and persona options as POST /api/chat; without
+ * `fileIds` the edit keeps the original's attachments.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string; messageId: string } }) {
+  try {
+    const { content, fileIds, llmConfigId, provider, model, personaId, stream = false } = await request.json();
+    const llmSelection = parseLLMSelection({ configId: llmConfigId, provider, model });
+    const attachments = parseFileIds(fileIds);
+
+    // Validate input
+    if (!content || typeof content !== 'string') {
+      return NextResponse.json({ error: 'Content is required' }, { status: 400 });
+    }
+    if (personaId !== undefined && personaId !== null && typeof personaId !== 'string') {
+      return NextResponse.json({ error: 'personaId must be a string or null' }, { status: 400 });
+    }
+    if (attachments.error !== undefined) {
+      return NextResponse.json({ error: attachments.error }, { status: 400 });
+    }
+
+    // Counts against the same `chat` scope and limits as POST /api/chat
+    const auth = await getRequestAuth(request);
+    if (!auth) {
+      return unauthorized();
+    }
+    if (!hasScope(auth, 'chat')) {
+      return forbidden('chat');
+    }
+    const limited = await limitRequest(request, auth, ['chat']);
+    if (limited) {
+      return limited;
+    }
+    const { user } = auth;
+
+    const conversation = await findUserConversation(user.id, params.id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+    if (!canAccess(await getWorkspaceRole(user.id, conversation.workspaceId), 'write')) {
+      return workspaceForbidden('write');
+    }
+
+    const original = conversation.messages.find(msg => msg.id === params.messageId);
+    if (!original) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+    if (original.role !== 'user') {
+      return NextResponse.json({ error: 'Only user messages can be edited' }, { status: 400 });
+    }
+
+    return await runChatTurn({
+      conversation,
+      content,
+      parentId: original.parentId,
+      fileIds: fileIds !== undefined ? attachments.data : getAttachmentFileIds(original.metadata),
+      llmSelection,
+      personaId,
+      stream,
+      signal: request.signal,
+      userId: user.id
+    });
+
+  } catch (error) {
+    console.error('Edit message error:', error);
+    return NextResponse.json(
+      { error: 'Failed to edit message' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { forbidden, getRequestAuth, hasScope, unauthorized } from '@/lib/auth';
+import { parseLLMSelection } from '@/lib/llm/config';
+import { ensureMessageTree } from '@/lib/chat/tree';
+import { runChatTurn } from '@/lib/chat/turn';
+import { limitRequest } from '@/lib/rate-limit';
+import { accessibleBy, canAccess, getWorkspaceRole, workspaceForbidden } from '@/lib/workspaces';
+
+async function findUserConversation(userId: string, id: string) {
+  const conversation = await prisma.conversation.findFirst({ where: { id, ...accessibleBy(userId) }, select: { id: true } });
+  if (!conversation) return null;
+
+  await ensureMessageTree(conversation.id);
+  return prisma.conversation.findUnique({
+    where: { id: conversation.id },
+    include: { messages: { orderBy: { createdAt: 'asc' } }, user: true }
+  });
+}
+
+/**
+ * Answers the user message behind an assistant reply again. The new answer is stored next to
+ * the old one, which stays available as an alternative. The body is optional and takes the
+ * same `stream`, model and persona options as POST /api/chat, e.g. to retry with another model.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string; messageId: string } }) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { llmConfigId, provider, model, personaId, stream = false } = body || {};
+    const llmSelection = parseLLMSelection({ configId: llmConfigId, provider, model });
+
+    // Validate input
+    if (personaId !== undefined && personaId !== null && typeof personaId !== 'string') {
+      return NextResponse.json({ error: 'personaId must be a string or null' }, { status: 400 });
+    }
+
+    // Counts against the same `chat` scope and limits as POST /api/chat
+    const auth = await getRequestAuth(request);
+    if (!auth) {
+      return unauthorized();
+    }
+    if (!hasScope(auth, 'chat')) {
+      return forbidden('chat');
+    }
+    const limited = await limitRequest(request, auth, ['chat']);
+    if (limited) {
+      return limited;
+    }
+    const { user } = auth;
+
+    const conversation = await findUserConversation(user.id, params.id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+    if (!canAccess(await getWorkspaceRole(user.id, conversation.workspaceId), 'write')) {
+      return workspaceForbidden('write');
+    }
+
+    const answer = conversation.messages.find(msg => msg.id === params.messageId);
+    if (!answer) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+    }
+
+    const userMessage = conversation.messages.find(msg => msg.id === answer.parentId);
+    if (answer.role !== 'assistant' || !userMessage || userMessage.role !== 'user') {
+      return NextResponse.json({ error: 'Only replies to a user message can be regenerated' }, { status: 400 });
+    }
+
+    return await runChatTurn({
+      conversation,
+      content: userMessage.content,
+      parentId: userMessage.parentId,
+      userMessage,
+      llmSelection,
+      personaId,
+      stream,
+      signal: request.signal,
+      userId: user.id
+    });
+
+  } catch (error) {
+    console.error('Regenerate message error:', error);
+    return NextResponse.json(
+      { error: 'Failed to regenerate message' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { decodeCursor, encodeCursor, isOlderThan, parseLimit } from '@/lib/pagination';
+import { ensureMessageTree, getActivePath, getMessageNodes, withSiblingIds } from '@/lib/chat/tree';
+import { accessibleBy } from '@/lib/workspaces';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Pages backwards through the conversation's active branch: the first request returns the
+ * newest messages, and passing `before=<nextCursor>` fetches the page preceding it. Each
+ * page is returned in chronological order so it can be prepended as is. Messages that have
+ * alternatives on other branches carry their `siblingIds`.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = parseLimit(searchParams.get('limit'), DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const cursorParam = searchParams.get('before');
+    const cursor = decodeCursor(cursorParam);
+
+    if (cursorParam && !cursor) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const conversation = await prisma.conversation.findFirst({ where: { id: params.id, ...accessibleBy(user.id) }, select: { id: true } });
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    // The branch is resolved over the bare tree, then only the page itself is loaded in full
+    const leafId = await ensureMessageTree(conversation.id);
+    const nodes = await getMessageNodes(conversation.id);
+    const path = getActivePath(nodes, leafId)
+      .filter(node => !cursor || isOlderThan(node.createdAt, node.id, cursor));
+
+    const page = path.slice(Math.max(0, path.length - limit));
+    const oldest = page[0];
+
+    const messages = await prisma.message.findMany({
+      where: { id: { in: page.map(node => node.id) } },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    });
+
+    return NextResponse.json({
+      messages: withSiblingIds(messages, nodes),
+      nextCursor: path.length > limit && oldest ? encodeCursor(oldest.createdAt, oldest.id) : null
+    });
+
+  } catch (error) {
+    console.error('List messages error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch messages' },
+      { status: 500 }
+    );
+  }
+}
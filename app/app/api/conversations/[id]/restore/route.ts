@@ -0,0 +1,35 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma, restoreConversation } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { accessibleBy, canAccess, getWorkspaceRole, workspaceForbidden } from '@/lib/workspaces';
+
+// Moves an archived conversation back into the active list
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const conversation = await prisma.conversation.findFirst({ where: { id: params.id, ...accessibleBy(user.id) } });
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+    if (!canAccess(await getWorkspaceRole(user.id, conversation.workspaceId), 'write')) {
+      return workspaceForbidden('write');
+    }
+
+    const restored = await restoreConversation(conversation.id);
+
+    return NextResponse.json({ conversation: restored });
+
+  } catch (error) {
+    console.error('Restore conversation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore conversation' },
+      { status: 500 }
+    );
+  }
+}
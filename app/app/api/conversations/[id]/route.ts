@@ -0,0 +1,194 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  prisma,
+  archiveConversation,
+  deleteConversation,
+  restoreConversation,
+  updateConversationMetadata,
+  updateConversationTitle
+} from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { ensureMessageTree, findLatestLeaf, getActivePath, getMessageNodes, withSiblingIds } from '@/lib/chat/tree';
+import { findUserFolder, parseTags } from '@/lib/chat/folders';
+import { accessibleBy, canAccess, getWorkspaceRole, workspaceForbidden } from '@/lib/workspaces';
+
+async function findUserConversation(userId: string, id: string) {
+  return prisma.conversation.findFirst({
+    where: { id, ...accessibleBy(userId) }
+  });
+}
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const conversation = await findUserConversation(user.id, params.id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const leafId = await ensureMessageTree(conversation.id);
+    const messages = await prisma.message.findMany({
+      where: { conversationId: conversation.id },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    });
+
+    // Only the active branch; the other branches are reachable through `siblingIds`
+    return NextResponse.json({
+      conversation: {
+        ...conversation,
+        activeLeafId: leafId,
+        messages: withSiblingIds(getActivePath(messages, leafId), messages)
+      }
+    });
+
+  } catch (error) {
+    console.error('Get conversation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversation' },
+      { status: 500 }
+    );
+  }
+}
+
+// Accepts any of `title`, `isArchived`, `metadata` (merged into the existing metadata) and
+// `activeMessageId`, which switches to the branch through that message and its latest replies.
+// A title set here is kept from then on; `metadata: { titleSource: null }` hands it back to
+// automatic titles. `folderId` (null to unfile; personal conversations only), `tags` (replaces
+// the list) and `isPinned` organize the conversation without moving it in the list.
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const conversation = await findUserConversation(user.id, params.id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+    if (!canAccess(await getWorkspaceRole(user.id, conversation.workspaceId), 'write')) {
+      return workspaceForbidden('write');
+    }
+
+    const { title, isArchived, metadata, activeMessageId, folderId, tags, isPinned } = await request.json();
+
+    // Validate input
+    if (title !== undefined && (typeof title !== 'string' || !title.trim())) {
+      return NextResponse.json({ error: 'Title must be a non-empty string' }, { status: 400 });
+    }
+    if (isArchived !== undefined && typeof isArchived !== 'boolean') {
+      return NextResponse.json({ error: 'isArchived must be a boolean' }, { status: 400 });
+    }
+    if (metadata !== undefined && (!metadata || typeof metadata !== 'object' || Array.isArray(metadata))) {
+      return NextResponse.json({ error: 'Metadata must be an object' }, { status: 400 });
+    }
+    if (activeMessageId !== undefined && typeof activeMessageId !== 'string') {
+      return NextResponse.json({ error: 'activeMessageId must be a string' }, { status: 400 });
+    }
+    if (folderId !== undefined && folderId !== null && typeof folderId !== 'string') {
+      return NextResponse.json({ error: 'folderId must be a string or null' }, { status: 400 });
+    }
+    if (isPinned !== undefined && typeof isPinned !== 'boolean') {
+      return NextResponse.json({ error: 'isPinned must be a boolean' }, { status: 400 });
+    }
+    const parsedTags = tags === undefined ? undefined : parseTags(tags);
+    if (parsedTags?.error) {
+      return NextResponse.json({ error: parsedTags.error }, { status: 400 });
+    }
+    // Folders are personal, so a shared conversation cannot be filed in one member's folder
+    if (folderId && conversation.workspaceId) {
+      return NextResponse.json({ error: 'Workspace conversations cannot be put in folders' }, { status: 400 });
+    }
+    if (folderId && !(await findUserFolder(conversation.userId, folderId))) {
+      return NextResponse.json({ error: 'Folder not found' }, { status: 404 });
+    }
+
+    if (activeMessageId !== undefined) {
+      await ensureMessageTree(conversation.id);
+      const nodes = await getMessageNodes(conversation.id);
+      // A tool message stands for the message it is attached to
+      const selected = nodes.find(node => node.id === activeMessageId);
+      const target = selected?.role === 'tool' ? nodes.find(node => node.id === selected.parentId) : selected;
+      if (!target) {
+        return NextResponse.json({ error: 'Message not found' }, { status: 404 });
+      }
+
+      await prisma.conversation.update({
+        where: { id: conversation.id },
+        data: { activeLeafId: findLatestLeaf(nodes, target.id) }
+      });
+    }
+
+    if (folderId !== undefined || parsedTags || isPinned !== undefined) {
+      await prisma.conversation.update({
+        where: { id: conversation.id },
+        data: {
+          ...(folderId !== undefined ? { folderId } : {}),
+          ...(parsedTags ? { tags: parsedTags.data } : {}),
+          ...(isPinned !== undefined ? { isPinned } : {}),
+          // Organizing is not activity: the conversation keeps its place in the list
+          updatedAt: conversation.updatedAt
+        }
+      });
+    }
+
+    if (title !== undefined) {
+      await updateConversationTitle(conversation.id, title.trim().slice(0, 200));
+      // Generated titles never replace one the user chose
+      await updateConversationMetadata(conversation.id, { titleSource: 'user' });
+    }
+    if (isArchived === true) {
+      await archiveConversation(conversation.id);
+    } else if (isArchived === false) {
+      await restoreConversation(conversation.id);
+    }
+    if (metadata !== undefined) {
+      await updateConversationMetadata(conversation.id, metadata);
+    }
+
+    const updated = await prisma.conversation.findUnique({ where: { id: conversation.id } });
+
+    return NextResponse.json({ conversation: updated });
+
+  } catch (error) {
+    console.error('Update conversation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update conversation' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const conversation = await findUserConversation(user.id, params.id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+    if (!canAccess(await getWorkspaceRole(user.id, conversation.workspaceId), 'write')) {
+      return workspaceForbidden('write');
+    }
+
+    await deleteConversation(conversation.id);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Delete conversation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete conversation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { serializeShare } from '@/lib/chat/shares';
+import { accessibleBy, canAccess, getWorkspaceRole, workspaceForbidden } from '@/lib/workspaces';
+
+async function findUserShare(userId: string, conversationId: string, shareId: string) {
+  return prisma.conversationShare.findFirst({
+    where: { id: shareId, conversationId, conversation: accessibleBy(userId) },
+    include: { conversation: { select: { workspaceId: true } } }
+  });
+}
+
+// Revokes the link; it stays listed so the owner can see it was shared
+export async function DELETE(request: NextRequest, { params }: { params: { id: string; shareId: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const share = await findUserShare(user.id, params.id, params.shareId);
+    if (!share) {
+      return NextResponse.json({ error: 'Share not found' }, { status: 404 });
+    }
+    if (!canAccess(await getWorkspaceRole(user.id, share.conversation.workspaceId), 'write')) {
+      return workspaceForbidden('write');
+    }
+
+    const revoked = share.revokedAt
+      ? share
+      : await prisma.conversationShare.update({
+          where: { id: share.id },
+          data: { revokedAt: new Date() }
+        });
+
+    return NextResponse.json({ share: serializeShare(revoked) });
+
+  } catch (error) {
+    console.error('Revoke share error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke share' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { createShareToken, serializeShare } from '@/lib/chat/shares';
+import { ensureMessageTree } from '@/lib/chat/tree';
+import { accessibleBy, canAccess, getWorkspaceRole, workspaceForbidden } from '@/lib/workspaces';
+
+async function findUserConversation(userId: string, id: string) {
+  return prisma.conversation.findFirst({
+    where: { id, ...accessibleBy(userId) }
+  });
+}
+
+// Every share link of the conversation, including revoked and expired ones
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const conversation = await findUserConversation(user.id, params.id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    const shares = await prisma.conversationShare.findMany({
+      where: { conversationId: conversation.id },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return NextResponse.json({ shares: shares.map(serializeShare) });
+
+  } catch (error) {
+    console.error('List shares error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch shares' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Creates a read-only link. With `freeze: true` it shows the conversation as it is now,
+ * otherwise it follows new messages; `expiresAt` optionally limits how long it works.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const conversation = await findUserConversation(user.id, params.id);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+    // A public link exposes the workspace's conversation, so viewers may not create one
+    if (!canAccess(await getWorkspaceRole(user.id, conversation.workspaceId), 'write')) {
+      return workspaceForbidden('write');
+    }
+
+    const { freeze = false, expiresAt } = await request.json().catch(() => ({}));
+
+    // Validate input
+    if (typeof freeze !== 'boolean') {
+      return NextResponse.json({ error: 'freeze must be a boolean' }, { status: 400 });
+    }
+    const expiry = expiresAt === undefined || expiresAt === null ? null : new Date(expiresAt);
+    if (expiry && (isNaN(expiry.getTime()) || expiry.getTime() <= Date.now())) {
+      return NextResponse.json({ error: 'expiresAt must be a date in the future' }, { status: 400 });
+    }
+
+    const leafId = await ensureMessageTree(conversation.id);
+    if (freeze && !leafId) {
+      return NextResponse.json({ error: 'An empty conversation cannot be frozen' }, { status: 400 });
+    }
+
+    const share = await prisma.conversationShare.create({
+      data: {
+        conversationId: conversation.id,
+        token: createShareToken(),
+        frozenMessageId: freeze ? leafId : null,
+        expiresAt: expiry
+      }
+    });
+
+    return NextResponse.json({ share: serializeShare(share) }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create share error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create share', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { importConversation, parseConversationImport } from '@/lib/chat/export';
+import { canAccess, resolveWorkspaceScope, workspaceForbidden, workspaceNotFound } from '@/lib/workspaces';
+
+// Takes the JSON produced by GET /api/conversations/[id]/export and creates a new conversation from
+// it in the active workspace
+export async function POST(request: NextRequest) {
+  try {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+    }
+
+    const parsed = parseConversationImport(body);
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+    const scope = await resolveWorkspaceScope(request, user);
+    if (!scope) {
+      return workspaceNotFound();
+    }
+    if (!canAccess(scope.role, 'write')) {
+      return workspaceForbidden('write');
+    }
+
+    const conversation = await importConversation(user.id, parsed.data, scope.workspaceId);
+
+    return NextResponse.json({
+      conversation: { ...conversation, messageCount: parsed.data.messages.length }
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Import conversation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to import conversation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { PageCursor, decodeCursor, encodeCursor, olderThan, parseLimit } from '@/lib/pagination';
+import { resolveWorkspaceScope, scopeFilter, workspaceNotFound } from '@/lib/workspaces';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const PREVIEW_LENGTH = 160;
+
+// Pinned conversations come first, so a page can end inside the pinned group or after it
+function afterCursor(cursor: PageCursor) {
+  const older = olderThan('updatedAt', cursor);
+  return cursor.pinned ? { OR: [{ isPinned: true, ...older }, { isPinned: false }] } : { isPinned: false, ...older };
+}
+
+function parseBoolean(value: string | null): boolean | undefined | null {
+  if (value === null) return undefined;
+  if (value === 'true' || value === 'false') return value === 'true';
+  return null;
+}
+
+/**
+ * Conversation summaries, pinned ones first and then most recently updated first, without
+ * their messages. Each comes with its last message and, once generated, a one-paragraph
+ * `summary` for previews. Pages with `?limit=` and the `nextCursor` of the previous page.
+ * Filters: `archived` (defaults to false), `pinned`, `folder` (a folder id, or `none` for
+ * unfiled conversations) and `tag` (comma separated; all must match). Lists the active
+ * workspace's conversations, or the personal ones outside any workspace.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const archived = parseBoolean(searchParams.get('archived'));
+    const pinned = parseBoolean(searchParams.get('pinned'));
+    const folder = searchParams.get('folder');
+    const tags = (searchParams.get('tag') || '').split(',').map(tag => tag.trim()).filter(Boolean);
+    const limit = parseLimit(searchParams.get('limit'), DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const cursorParam = searchParams.get('cursor');
+    const cursor = decodeCursor(cursorParam);
+
+    if (cursorParam && !cursor) {
+      return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    }
+    if (archived === null || pinned === null) {
+      return NextResponse.json({ error: "'archived' and 'pinned' must be true or false" }, { status: 400 });
+    }
+
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+    const scope = await resolveWorkspaceScope(request, user);
+    if (!scope) {
+      return workspaceNotFound();
+    }
+
+    // One extra row tells whether another page exists
+    const conversations = await prisma.conversation.findMany({
+      where: {
+        AND: [
+          {
+            ...scopeFilter(user.id, scope.workspaceId),
+            isArchived: archived ?? false,
+            ...(pinned !== undefined ? { isPinned: pinned } : {}),
+            ...(folder ? { folderId: folder === 'none' ? null : folder } : {}),
+            ...(tags.length > 0 ? { tags: { hasEvery: tags } } : {})
+          },
+          cursor ? afterCursor(cursor) : {}
+        ]
+      },
+      include: {
+        _count: { select: { messages: true } },
+        messages: {
+          where: { role: { in: ['user', 'assistant'] } },
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        }
+      },
+      orderBy: [{ isPinned: 'desc' }, { updatedAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1
+    });
+
+    const page = conversations.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return NextResponse.json({
+      conversations: page.map(({ _count, messages, ...conversation }) => ({
+        ...conversation,
+        messageCount: _count.messages,
+        summary: ((conversation.metadata as Record<string, any> | null) || {}).summary?.content ?? null,
+        lastMessage: messages[0] ? {
+          role: messages[0].role,
+          content: messages[0].content.slice(0, PREVIEW_LENGTH),
+          createdAt: messages[0].createdAt
+        } : null
+      })),
+      nextCursor: conversations.length > limit && last ? encodeCursor(last.updatedAt, last.id, last.isPinned) : null
+    });
+
+  } catch (error) {
+    console.error('List conversations error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch conversations' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { resolveWorkspaceScope, workspaceNotFound } from '@/lib/workspaces';
+
+// Every tag used on the active conversations of the active workspace (or the user's own), most used first
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+    const scope = await resolveWorkspaceScope(request, user);
+    if (!scope) {
+      return workspaceNotFound();
+    }
+    const owner = scope.workspaceId
+      ? Prisma.sql`c."workspaceId" = ${scope.workspaceId}`
+      : Prisma.sql`c."userId" = ${user.id} AND c."workspaceId" IS NULL`;
+
+    const rows = await prisma.$queryRaw<Array<{ tag: string; count: bigint }>>`
+      SELECT tag, count(*) AS count
+      FROM conversations c, unnest(c.tags) AS tag
+      WHERE ${owner} AND c."isArchived" = false
+      GROUP BY tag
+      ORDER BY count DESC, tag ASC
+    `;
+
+    return NextResponse.json({
+      tags: rows.map(row => ({ tag: row.tag, count: Number(row.count) }))
+    });
+
+  } catch (error) {
+    console.error('Get conversation tags error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch tags' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,9 @@ export const dynamic = "force-dynamic";
 
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { forbidden, getRequestAuth, hasScope, unauthorized } from '@/lib/auth';
+import { QuotaExceededError, assertQuota, quotaExceeded } from '@/lib/quotas';
+import { canAccess, resolveWorkspaceScope, scopeFilter, workspaceForbidden, workspaceNotFound } from '@/lib/workspaces';
 import { writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
 import { existsSync } from 'fs';
@@ -11,6 +14,23 @@ const UPLOAD_DIR = process.env.UPLOAD_DIR || '/app/uploads';
 
 export async function POST(request: NextRequest) {
   try {
+    const auth = await getRequestAuth(request);
+    if (!auth) {
+      return unauthorized();
+    }
+    if (!hasScope(auth, 'files:write')) {
+      return forbidden('files:write');
+    }
+    const { user } = auth;
+    // Uploads belong to the active workspace; storage still counts against the uploader's quota
+    const scope = await resolveWorkspaceScope(request, user);
+    if (!scope) {
+      return workspaceNotFound();
+    }
+    if (!canAccess(scope.role, 'write')) {
+      return workspaceForbidden('write');
+    }
+
     const formData = await request.formData();
     const file = formData.get('file') as File;
     const conversationId = formData.get('conversationId') as string;
@@ -19,6 +39,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 });
     }
 
+    await assertQuota(user.id, 'storageBytes', file.size);
+
     // Ensure upload directory exists
     if (!existsSync(UPLOAD_DIR)) {
       await mkdir(UPLOAD_DIR, { recursive: true });
@@ -34,20 +56,11 @@ export async function POST(request: NextRequest) {
     const buffer = Buffer.from(bytes);
     await writeFile(filepath, buffer);
 
-    // Get or create default user
-    const user = await prisma.user.upsert({
-      where: { sessionId: 'default-session' },
-      update: {},
-      create: {
-        sessionId: 'default-session',
-        language: 'en'
-      }
-    });
-
     // Save file metadata to database
     const savedFile = await prisma.file.create({
       data: {
         userId: user.id,
+        workspaceId: scope.workspaceId,
         filename,
         originalName: file.name,
         mimeType: file.type,
@@ -85,6 +98,9 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceeded(error);
+    }
     console.error('File upload error:', error);
     return NextResponse.json(
       { error: 'Failed to upload file', details: error instanceof Error ? error.message : 'Unknown error' },
@@ -95,24 +111,25 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId') || 'default-session';
-
-    const user = await prisma.user.findUnique({
-      where: { sessionId: userId },
-      include: {
-        files: {
-          where: { isDeleted: false },
-          orderBy: { uploadedAt: 'desc' }
-        }
-      }
-    });
-
-    if (!user) {
-      return NextResponse.json({ files: [] });
+    const auth = await getRequestAuth(request);
+    if (!auth) {
+      return unauthorized();
     }
+    if (!hasScope(auth, 'files:read')) {
+      return forbidden('files:read');
+    }
+    const { user } = auth;
+    const scope = await resolveWorkspaceScope(request, user);
+    if (!scope) {
+      return workspaceNotFound();
+    }
+
+    const files = await prisma.file.findMany({
+      where: { ...scopeFilter(user.id, scope.workspaceId), isDeleted: false },
+      orderBy: { uploadedAt: 'desc' }
+    });
 
-    return NextResponse.json({ files: user.files });
+    return NextResponse.json({ files });
 
   } catch (error) {
     console.error('Get files error:', error);
@@ -0,0 +1,75 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { findUserFolder, parseFolderInput, serializeFolder } from '@/lib/chat/folders';
+
+// Accepts any of `name`, `color` and `position`
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const folder = await findUserFolder(user.id, params.id);
+    if (!folder) {
+      return NextResponse.json({ error: 'Folder not found' }, { status: 404 });
+    }
+
+    const parsed = parseFolderInput(await request.json(), true);
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    if (parsed.data.name && parsed.data.name !== folder.name) {
+      const existing = await prisma.folder.findUnique({
+        where: { userId_name: { userId: folder.userId, name: parsed.data.name } }
+      });
+      if (existing) {
+        return NextResponse.json({ error: 'A folder with this name already exists' }, { status: 409 });
+      }
+    }
+
+    const updated = await prisma.folder.update({
+      where: { id: folder.id },
+      data: parsed.data
+    });
+
+    return NextResponse.json({ folder: serializeFolder(updated) });
+
+  } catch (error) {
+    console.error('Update folder error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update folder' },
+      { status: 500 }
+    );
+  }
+}
+
+// The folder's conversations are kept and become unfiled
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const folder = await findUserFolder(user.id, params.id);
+    if (!folder) {
+      return NextResponse.json({ error: 'Folder not found' }, { status: 404 });
+    }
+
+    await prisma.folder.delete({ where: { id: folder.id } });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Delete folder error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete folder' },
+      { status: 500 }
+    );
+  }
+}
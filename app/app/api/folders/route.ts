@@ -0,0 +1,76 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { parseFolderInput, serializeFolder } from '@/lib/chat/folders';
+
+// Folders in sidebar order, each with the number of active conversations it holds
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const folders = await prisma.folder.findMany({
+      where: { userId: user.id },
+      include: { _count: { select: { conversations: { where: { isArchived: false } } } } },
+      orderBy: [{ position: 'asc' }, { name: 'asc' }]
+    });
+
+    return NextResponse.json({ folders: folders.map(serializeFolder) });
+
+  } catch (error) {
+    console.error('Get folders error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch folders' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = parseFolderInput(await request.json());
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const existing = await prisma.folder.findUnique({
+      where: { userId_name: { userId: user.id, name: parsed.data.name! } }
+    });
+    if (existing) {
+      return NextResponse.json({ error: 'A folder with this name already exists' }, { status: 409 });
+    }
+
+    // New folders go to the end unless a position is given
+    const last = await prisma.folder.findFirst({
+      where: { userId: user.id },
+      orderBy: { position: 'desc' }
+    });
+
+    const folder = await prisma.folder.create({
+      data: {
+        userId: user.id,
+        name: parsed.data.name!,
+        color: parsed.data.color,
+        position: parsed.data.position ?? (last ? last.position + 1 : 0)
+      }
+    });
+
+    return NextResponse.json({ folder: serializeFolder({ ...folder, _count: { conversations: 0 } }) }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create folder error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create folder' },
+      { status: 500 }
+    );
+  }
+}
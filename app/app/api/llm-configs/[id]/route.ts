@@ -0,0 +1,140 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { encryptSecret } from '@/lib/crypto';
+import { isLLMProvider, providerRequiresApiKey } from '@/lib/llm';
+import { sanitizeParameters, serializeLLMConfig, validateBaseUrl } from '@/lib/llm/config';
+import { accessibleBy, canAccess, getWorkspaceRole, workspaceForbidden } from '@/lib/workspaces';
+
+const prisma = new PrismaClient();
+
+// The user's own configurations and those of their workspaces; the latter only owners may change
+async function findUserConfig(userId: string, id: string) {
+  return prisma.lLMConfiguration.findFirst({
+    where: { id, ...accessibleBy(userId) }
+  });
+}
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const config = await findUserConfig(user.id, params.id);
+    if (!config) {
+      return NextResponse.json({ error: 'LLM configuration not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ config: serializeLLMConfig(config) });
+
+  } catch (error) {
+    console.error('Get LLM configuration error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch LLM configuration' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const config = await findUserConfig(user.id, params.id);
+    if (!config) {
+      return NextResponse.json({ error: 'LLM configuration not found' }, { status: 404 });
+    }
+    if (!canAccess(await getWorkspaceRole(user.id, config.workspaceId), 'manage')) {
+      return workspaceForbidden('manage');
+    }
+
+    const { model, apiKey, baseUrl, isDefault, isActive, parameters } = await request.json();
+
+    const data: Record<string, any> = {};
+    if (model !== undefined) {
+      if (!model || typeof model !== 'string') {
+        return NextResponse.json({ error: 'Model must be a non-empty string' }, { status: 400 });
+      }
+      data.model = model;
+    }
+    if (apiKey !== undefined) {
+      const keyless = isLLMProvider(config.provider) && !providerRequiresApiKey(config.provider);
+      if (typeof apiKey !== 'string' || (!apiKey && !keyless)) {
+        return NextResponse.json({ error: 'API key must be a non-empty string' }, { status: 400 });
+      }
+      data.apiKey = apiKey ? encryptSecret(apiKey) : '';
+    }
+    if (baseUrl !== undefined) {
+      const baseUrlError = baseUrl === null ? null : await validateBaseUrl(baseUrl);
+      if (baseUrlError) {
+        return NextResponse.json({ error: baseUrlError }, { status: 400 });
+      }
+      data.baseUrl = baseUrl;
+    }
+    if (typeof isDefault === 'boolean') data.isDefault = isDefault;
+    if (typeof isActive === 'boolean') data.isActive = isActive;
+    if (parameters !== undefined) data.parameters = sanitizeParameters(parameters);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.lLMConfiguration.updateMany({
+          where: {
+            ...(config.workspaceId ? { workspaceId: config.workspaceId } : { userId: config.userId }),
+            isDefault: true,
+            id: { not: config.id }
+          },
+          data: { isDefault: false }
+        });
+      }
+
+      return tx.lLMConfiguration.update({
+        where: { id: config.id },
+        data
+      });
+    });
+
+    return NextResponse.json({ config: serializeLLMConfig(updated) });
+
+  } catch (error) {
+    console.error('Update LLM configuration error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update LLM configuration', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const config = await findUserConfig(user.id, params.id);
+    if (!config) {
+      return NextResponse.json({ error: 'LLM configuration not found' }, { status: 404 });
+    }
+    if (!canAccess(await getWorkspaceRole(user.id, config.workspaceId), 'manage')) {
+      return workspaceForbidden('manage');
+    }
+
+    await prisma.lLMConfiguration.delete({ where: { id: config.id } });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Delete LLM configuration error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete LLM configuration' },
+      { status: 500 }
+    );
+  }
+}
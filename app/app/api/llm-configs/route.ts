@@ -0,0 +1,118 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { encryptSecret } from '@/lib/crypto';
+import { isLLMProvider, providerRequiresApiKey } from '@/lib/llm';
+import { sanitizeParameters, serializeLLMConfig, validateBaseUrl } from '@/lib/llm/config';
+import { canAccess, resolveWorkspaceScope, workspaceForbidden, workspaceNotFound } from '@/lib/workspaces';
+
+const prisma = new PrismaClient();
+
+// The active workspace's shared configurations, or the user's own; keys are masked either way
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+    const scope = await resolveWorkspaceScope(request, user);
+    if (!scope) {
+      return workspaceNotFound();
+    }
+
+    const configs = await prisma.lLMConfiguration.findMany({
+      where: scope.workspaceId ? { workspaceId: scope.workspaceId } : { userId: user.id },
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }]
+    });
+
+    return NextResponse.json({ configs: configs.map(serializeLLMConfig) });
+
+  } catch (error) {
+    console.error('Get LLM configurations error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch LLM configurations' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { provider, model, apiKey, baseUrl, isDefault = false, parameters } = await request.json();
+
+    // Validate input
+    if (!isLLMProvider(provider)) {
+      return NextResponse.json({ error: 'A valid provider is required' }, { status: 400 });
+    }
+    if (!model || typeof model !== 'string') {
+      return NextResponse.json({ error: 'Model is required' }, { status: 400 });
+    }
+    if (apiKey !== undefined && typeof apiKey !== 'string') {
+      return NextResponse.json({ error: 'API key must be a string' }, { status: 400 });
+    }
+    if (!apiKey && providerRequiresApiKey(provider)) {
+      return NextResponse.json({ error: 'API key is required' }, { status: 400 });
+    }
+    const baseUrlError = baseUrl ? await validateBaseUrl(baseUrl) : null;
+    if (baseUrlError) {
+      return NextResponse.json({ error: baseUrlError }, { status: 400 });
+    }
+
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+    // Only owners add the keys a workspace shares
+    const scope = await resolveWorkspaceScope(request, user);
+    if (!scope) {
+      return workspaceNotFound();
+    }
+    if (!canAccess(scope.role, 'manage')) {
+      return workspaceForbidden('manage');
+    }
+    const owner = scope.workspaceId ? { workspaceId: scope.workspaceId } : { userId: user.id };
+
+    const existing = await prisma.lLMConfiguration.findFirst({
+      where: { ...owner, provider, model }
+    });
+    if (existing) {
+      return NextResponse.json({ error: 'A configuration for this provider and model already exists' }, { status: 409 });
+    }
+
+    // The first configuration a user (or workspace) adds becomes their default
+    const configCount = await prisma.lLMConfiguration.count({ where: owner });
+    const makeDefault = Boolean(isDefault) || configCount === 0;
+
+    const config = await prisma.$transaction(async (tx) => {
+      if (makeDefault) {
+        await tx.lLMConfiguration.updateMany({
+          where: { ...owner, isDefault: true },
+          data: { isDefault: false }
+        });
+      }
+
+      return tx.lLMConfiguration.create({
+        data: {
+          ...owner,
+          provider,
+          model,
+          apiKey: apiKey ? encryptSecret(apiKey) : '',
+          baseUrl: baseUrl || null,
+          isDefault: makeDefault,
+          parameters: sanitizeParameters(parameters) as any
+        }
+      });
+    });
+
+    return NextResponse.json({ config: serializeLLMConfig(config) }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create LLM configuration error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create LLM configuration', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
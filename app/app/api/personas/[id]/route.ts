@@ -0,0 +1,116 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { parsePersonaInput, serializePersona, toPersonaData } from '@/lib/chat/personas';
+import { ToolRegistry } from '@/lib/tools/tool-registry';
+
+const prisma = new PrismaClient();
+const toolRegistry = new ToolRegistry();
+
+async function findUserPersona(userId: string, id: string) {
+  return prisma.persona.findFirst({
+    where: { id, userId }
+  });
+}
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const persona = await findUserPersona(user.id, params.id);
+    if (!persona) {
+      return NextResponse.json({ error: 'Persona not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ persona: serializePersona(persona) });
+
+  } catch (error) {
+    console.error('Get persona error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch persona' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const persona = await findUserPersona(user.id, params.id);
+    if (!persona) {
+      return NextResponse.json({ error: 'Persona not found' }, { status: 404 });
+    }
+
+    const parsed = parsePersonaInput(await request.json(), toolRegistry.listTools(), true);
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    if (parsed.data.name && parsed.data.name !== persona.name) {
+      const existing = await prisma.persona.findUnique({
+        where: { userId_name: { userId: persona.userId, name: parsed.data.name } }
+      });
+      if (existing) {
+        return NextResponse.json({ error: 'A persona with this name already exists' }, { status: 409 });
+      }
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (parsed.data.isDefault) {
+        await tx.persona.updateMany({
+          where: { userId: persona.userId, isDefault: true, id: { not: persona.id } },
+          data: { isDefault: false }
+        });
+      }
+
+      return tx.persona.update({
+        where: { id: persona.id },
+        data: toPersonaData(parsed.data)
+      });
+    });
+
+    return NextResponse.json({ persona: serializePersona(updated) });
+
+  } catch (error) {
+    console.error('Update persona error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update persona', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Conversations that used the persona fall back to the user's default one
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const persona = await findUserPersona(user.id, params.id);
+    if (!persona) {
+      return NextResponse.json({ error: 'Persona not found' }, { status: 404 });
+    }
+
+    await prisma.persona.delete({ where: { id: persona.id } });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Delete persona error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete persona' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { DEFAULT_SYSTEM_PROMPT, parsePersonaInput, serializePersona, toPersonaData } from '@/lib/chat/personas';
+import { ToolRegistry } from '@/lib/tools/tool-registry';
+
+const prisma = new PrismaClient();
+const toolRegistry = new ToolRegistry();
+
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const personas = await prisma.persona.findMany({
+      where: { userId: user.id },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }]
+    });
+
+    return NextResponse.json({
+      personas: personas.map(serializePersona),
+      // Shown as the starting point for new personas and used when none is selected
+      defaultSystemPrompt: DEFAULT_SYSTEM_PROMPT
+    });
+
+  } catch (error) {
+    console.error('Get personas error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch personas' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = parsePersonaInput(await request.json(), toolRegistry.listTools());
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const existing = await prisma.persona.findUnique({
+      where: { userId_name: { userId: user.id, name: parsed.data.name! } }
+    });
+    if (existing) {
+      return NextResponse.json({ error: 'A persona with this name already exists' }, { status: 409 });
+    }
+
+    const persona = await prisma.$transaction(async (tx) => {
+      if (parsed.data.isDefault) {
+        await tx.persona.updateMany({
+          where: { userId: user.id, isDefault: true },
+          data: { isDefault: false }
+        });
+      }
+
+      return tx.persona.create({
+        data: {
+          ...toPersonaData(parsed.data),
+          name: parsed.data.name!,
+          systemPrompt: parsed.data.systemPrompt!,
+          userId: user.id
+        }
+      });
+    });
+
+    return NextResponse.json({ persona: serializePersona(persona) }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create persona error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create persona', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+export const dynamic = "force-dynamic";
+
+import { NextResponse } from 'next/server';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { getQuotaStatus, resolveQuotaLimits } from '@/lib/quotas';
+
+// The caller's usage against each quota, unlimited ones included, for usage meters in the UI
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const [{ plan }, quotas] = await Promise.all([
+      resolveQuotaLimits(user.id),
+      getQuotaStatus(user.id, { all: true })
+    ]);
+
+    return NextResponse.json({ plan, quotas });
+
+  } catch (error) {
+    console.error('Get quotas error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch quotas' },
+      { status: 500 }
+    );
+  }
+}
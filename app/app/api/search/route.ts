@@ -0,0 +1,94 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { parseLimit } from '@/lib/pagination';
+import { SEARCH_TYPES, search } from '@/lib/search';
+import { SearchHitType } from '@/lib/types';
+import { resolveWorkspaceScope, workspaceNotFound } from '@/lib/workspaces';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_QUERY_LENGTH = 500;
+const MESSAGE_ROLES = ['user', 'assistant', 'tool'];
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function parseList(value: string | null): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Full-text search across the conversations and files of the active workspace, or the user's
+ * own. Takes `q` plus optional filters: `type` (message, conversation, file; comma separated),
+ * `role` (comma separated), `from` and `to` dates, `conversationId` and `tool`. Role and tool
+ * filters restrict the search to messages. Results are ranked; page with `limit` and the
+ * `nextOffset` of the previous page.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+    const types = parseList(searchParams.get('type'));
+    const roles = parseList(searchParams.get('role'));
+    const from = parseDate(searchParams.get('from'));
+    const to = parseDate(searchParams.get('to'));
+    const limit = parseLimit(searchParams.get('limit'), DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const offset = Math.max(0, parseInt(searchParams.get('offset') || '0', 10) || 0);
+
+    // Validate input
+    if (!query) {
+      return NextResponse.json({ error: 'Query is required' }, { status: 400 });
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json({ error: `Query must be at most ${MAX_QUERY_LENGTH} characters` }, { status: 400 });
+    }
+    if (types.some(type => !SEARCH_TYPES.includes(type as SearchHitType))) {
+      return NextResponse.json({ error: `type must be one of: ${SEARCH_TYPES.join(', ')}` }, { status: 400 });
+    }
+    if (roles.some(role => !MESSAGE_ROLES.includes(role))) {
+      return NextResponse.json({ error: `role must be one of: ${MESSAGE_ROLES.join(', ')}` }, { status: 400 });
+    }
+    if (from === null || to === null) {
+      return NextResponse.json({ error: "'from' and 'to' must be valid dates" }, { status: 400 });
+    }
+    if (from && to && from > to) {
+      return NextResponse.json({ error: "'from' must be before 'to'" }, { status: 400 });
+    }
+
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+    const scope = await resolveWorkspaceScope(request, user);
+    if (!scope) {
+      return workspaceNotFound();
+    }
+
+    const result = await search(user.id, scope.workspaceId, query, {
+      types: types.length > 0 ? (types as SearchHitType[]) : SEARCH_TYPES,
+      roles,
+      from,
+      to,
+      conversationId: searchParams.get('conversationId') || undefined,
+      tool: searchParams.get('tool') || undefined
+    }, { limit, offset });
+
+    return NextResponse.json({
+      hits: result.hits,
+      nextOffset: result.hasMore ? offset + limit : null
+    });
+
+  } catch (error) {
+    console.error('Search error:', error);
+    return NextResponse.json(
+      { error: 'Failed to search' },
+      { status: 500 }
+    );
+  }
+}
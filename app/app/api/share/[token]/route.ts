@@ -0,0 +1,24 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { loadSharedConversation } from '@/lib/chat/shares';
+
+// Public and read-only: anyone with the token sees the shared branch, nothing else
+export async function GET(request: NextRequest, { params }: { params: { token: string } }) {
+  try {
+    const conversation = await loadSharedConversation(params.token);
+    if (!conversation) {
+      // Revoked and expired links look the same as unknown ones
+      return NextResponse.json({ error: 'Share not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ conversation });
+
+  } catch (error) {
+    console.error('Get shared conversation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch shared conversation' },
+      { status: 500 }
+    );
+  }
+}
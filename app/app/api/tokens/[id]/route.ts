@@ -0,0 +1,34 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { serializeApiToken } from '@/lib/api-tokens';
+
+// Revokes the token; it stays listed so the owner can see when it was last used
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const token = await prisma.apiToken.findFirst({ where: { id: params.id, userId: user.id } });
+    if (!token) {
+      return NextResponse.json({ error: 'API token not found' }, { status: 404 });
+    }
+
+    const revoked = token.revokedAt
+      ? token
+      : await prisma.apiToken.update({ where: { id: token.id }, data: { revokedAt: new Date() } });
+
+    return NextResponse.json({ apiToken: serializeApiToken(revoked) });
+
+  } catch (error) {
+    console.error('Revoke API token error:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API token' },
+      { status: 500 }
+    );
+  }
+}
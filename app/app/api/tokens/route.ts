@@ -0,0 +1,69 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { API_SCOPES, generateApiToken, parseApiTokenInput, serializeApiToken } from '@/lib/api-tokens';
+import { ToolRegistry } from '@/lib/tools/tool-registry';
+
+const toolRegistry = new ToolRegistry();
+
+// Tokens are managed from a browser session only; a token cannot list or mint tokens
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const tokens = await prisma.apiToken.findMany({
+      where: { userId: user.id },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return NextResponse.json({
+      tokens: tokens.map(serializeApiToken),
+      // Every scope a new token can be given
+      scopes: [...API_SCOPES, ...toolRegistry.listTools().map(name => `tools:${name}`)]
+    });
+
+  } catch (error) {
+    console.error('List API tokens error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch API tokens' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Mints a token with `name`, `scopes` and an optional `expiresAt`. The token itself is in
+ * this response only; afterwards just its prefix is shown.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const parsed = parseApiTokenInput(await request.json(), toolRegistry.listTools());
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { token, tokenHash, prefix } = generateApiToken();
+    const record = await prisma.apiToken.create({
+      data: { ...parsed.data, userId: user.id, tokenHash, prefix }
+    });
+
+    return NextResponse.json({ token, apiToken: serializeApiToken(record) }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create API token error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create API token' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,7 +2,20 @@ export const dynamic = "force-dynamic";
 
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
+import { forbidden, getRequestAuth, hasScope, unauthorized } from '@/lib/auth';
+import { resolveLLMOptions } from '@/lib/llm/config';
 import { ToolRegistry } from '@/lib/tools/tool-registry';
+import { RateLimitError, limitRequest, rateLimited } from '@/lib/rate-limit';
+import { QuotaExceededError, assertQuota, quotaExceeded } from '@/lib/quotas';
+import {
+  accessibleBy,
+  canAccess,
+  getDisabledTools,
+  getWorkspaceRole,
+  resolveWorkspaceScope,
+  workspaceForbidden,
+  workspaceNotFound
+} from '@/lib/workspaces';
 
 const prisma = new PrismaClient();
 const toolRegistry = new ToolRegistry();
@@ -22,14 +35,66 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: `Tool '${toolName}' not found` }, { status: 404 });
     }
 
-    // Execute tool
-    const result = await tool.execute(parameters);
+    // API tokens need the tool's own scope, or `tools:*`
+    const auth = await getRequestAuth(request);
+    if (!auth) {
+      return unauthorized();
+    }
+    if (!hasScope(auth, `tools:${tool.name}`)) {
+      return forbidden(`tools:${tool.name}`);
+    }
+    // Every tool call counts towards `tools`; costly tools also have a budget of their own
+    const limited = await limitRequest(request, auth, ['tools', `tool:${tool.name}`]);
+    if (limited) {
+      return limited;
+    }
+    const { user } = auth;
+
+    // The call is logged to the conversation, so it has to be one the caller may add to
+    const conversation = conversationId
+      ? await prisma.conversation.findFirst({
+          where: { id: conversationId, ...accessibleBy(user.id) },
+          select: { activeLeafId: true, workspaceId: true }
+        })
+      : null;
+    if (conversationId && !conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    // Without a conversation the tool runs in the active workspace, e.g. on its files
+    const scope = conversation
+      ? { workspaceId: conversation.workspaceId, role: await getWorkspaceRole(user.id, conversation.workspaceId) }
+      : await resolveWorkspaceScope(request, user);
+    if (!scope) {
+      return workspaceNotFound();
+    }
+    if (!canAccess(scope.role, 'write')) {
+      return workspaceForbidden('write');
+    }
+    if ((await getDisabledTools(scope.workspaceId)).includes(tool.name)) {
+      return NextResponse.json({ error: `Tool '${tool.name}' is disabled in this workspace` }, { status: 403 });
+    }
+
+    if (tool.usesLLM) {
+      await assertQuota(user.id, 'llmTokens');
+    }
+
+    // Execute tool, with the caller's (or the workspace's) default model for any LLM calls it makes
+    const result = await tool.execute(parameters, {
+      userId: user.id,
+      workspaceId: scope.workspaceId,
+      conversationId,
+      signal: request.signal,
+      llmOptions: tool.usesLLM ? await resolveLLMOptions(user.id, {}, scope.workspaceId) : undefined
+    });
 
     // Log tool execution if needed
     if (conversationId) {
       await prisma.message.create({
         data: {
           conversationId,
+          // Shown with the branch that was active when the tool ran
+          parentId: conversation?.activeLeafId,
           role: 'tool',
           content: JSON.stringify({
             tool: toolName,
@@ -44,6 +109,12 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ result });
 
   } catch (error) {
+    if (error instanceof RateLimitError) {
+      return rateLimited(error.message, error.retryAfterMs);
+    }
+    if (error instanceof QuotaExceededError) {
+      return quotaExceeded(error);
+    }
     console.error('Tool execution error:', error);
     return NextResponse.json(
       { error: 'Failed to execute tool', details: error instanceof Error ? error.message : 'Unknown error' },
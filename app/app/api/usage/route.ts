@@ -0,0 +1,108 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_RANGE_DAYS = 30;
+
+function parseDate(value: string | null): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const to = parseDate(searchParams.get('to')) || new Date();
+    const from = parseDate(searchParams.get('from')) || new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+    const conversationId = searchParams.get('conversationId') || undefined;
+
+    if (from > to) {
+      return NextResponse.json({ error: "'from' must be before 'to'" }, { status: 400 });
+    }
+
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const where: Prisma.LLMUsageWhereInput = {
+      userId: user.id,
+      conversationId,
+      createdAt: { gte: from, lte: to }
+    };
+    const sums = { promptTokens: true, completionTokens: true, totalTokens: true, cost: true } as const;
+
+    const [totals, byModel, byTool, byDay] = await Promise.all([
+      prisma.lLMUsage.aggregate({ where, _sum: sums, _count: { _all: true } }),
+      prisma.lLMUsage.groupBy({
+        by: ['provider', 'model'],
+        where,
+        _sum: sums,
+        _count: { _all: true },
+        orderBy: { _sum: { cost: 'desc' } }
+      }),
+      prisma.lLMUsage.groupBy({
+        by: ['tool'],
+        where,
+        _sum: sums,
+        _count: { _all: true },
+        orderBy: { _sum: { cost: 'desc' } }
+      }),
+      prisma.$queryRaw<Array<{ day: Date; calls: bigint; totalTokens: bigint | null; cost: number | null }>>`
+        SELECT date_trunc('day', "createdAt") AS day,
+               COUNT(*) AS calls,
+               SUM("totalTokens") AS "totalTokens",
+               SUM("cost") AS cost
+        FROM llm_usage
+        WHERE "userId" = ${user.id}
+          AND "createdAt" >= ${from}
+          AND "createdAt" <= ${to}
+          ${conversationId ? Prisma.sql`AND "conversationId" = ${conversationId}` : Prisma.empty}
+        GROUP BY 1
+        ORDER BY 1 ASC
+      `
+    ]);
+
+    const formatGroup = (group: { _sum: Partial<Record<keyof typeof sums, number | null>>; _count: { _all: number } }) => ({
+      calls: group._count._all,
+      promptTokens: group._sum.promptTokens || 0,
+      completionTokens: group._sum.completionTokens || 0,
+      totalTokens: group._sum.totalTokens || 0,
+      cost: group._sum.cost || 0
+    });
+
+    return NextResponse.json({
+      from,
+      to,
+      totals: formatGroup(totals),
+      byDay: byDay.map(row => ({
+        day: row.day.toISOString().slice(0, 10),
+        calls: Number(row.calls),
+        totalTokens: Number(row.totalTokens || 0),
+        cost: Number(row.cost || 0)
+      })),
+      byModel: byModel.map(group => ({
+        provider: group.provider,
+        model: group.model,
+        ...formatGroup(group)
+      })),
+      // A null tool groups the calls made for the chat itself (answers and summaries)
+      byTool: byTool.map(group => ({
+        tool: group.tool,
+        ...formatGroup(group)
+      }))
+    });
+
+  } catch (error) {
+    console.error('Get usage error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch usage' },
+      { status: 500 }
+    );
+  }
+}
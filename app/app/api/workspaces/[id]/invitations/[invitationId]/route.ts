@@ -0,0 +1,42 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { canAccess, getWorkspaceRole, workspaceForbidden, workspaceNotFound } from '@/lib/workspaces';
+
+// Withdraws an invitation that has not been accepted yet
+export async function DELETE(request: NextRequest, { params }: { params: { id: string; invitationId: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const role = await getWorkspaceRole(user.id, params.id);
+    if (!role) {
+      return workspaceNotFound();
+    }
+    if (!canAccess(role, 'manage')) {
+      return workspaceForbidden('manage');
+    }
+
+    const invitation = await prisma.workspaceInvitation.findFirst({
+      where: { id: params.invitationId, workspaceId: params.id, acceptedAt: null }
+    });
+    if (!invitation) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+    }
+
+    await prisma.workspaceInvitation.delete({ where: { id: invitation.id } });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Delete workspace invitation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete workspace invitation' },
+      { status: 500 }
+    );
+  }
+}
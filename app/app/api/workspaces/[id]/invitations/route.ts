@@ -0,0 +1,98 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import {
+  WORKSPACE_ROLES,
+  WorkspaceError,
+  canAccess,
+  createInvitation,
+  getWorkspaceRole,
+  isWorkspaceRole,
+  serializeInvitation,
+  workspaceForbidden,
+  workspaceNotFound
+} from '@/lib/workspaces';
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Every invitation of the workspace, including accepted and expired ones; owners only
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const role = await getWorkspaceRole(user.id, params.id);
+    if (!role) {
+      return workspaceNotFound();
+    }
+    if (!canAccess(role, 'manage')) {
+      return workspaceForbidden('manage');
+    }
+
+    const invitations = await prisma.workspaceInvitation.findMany({
+      where: { workspaceId: params.id },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return NextResponse.json({ invitations: invitations.map(serializeInvitation) });
+
+  } catch (error) {
+    console.error('List workspace invitations error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch workspace invitations' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Invites `email` with `role` (defaults to editor). The invitation token is in this response
+ * only, to be passed on to the invitee, who accepts it with POST /api/workspaces/invitations/accept.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const role = await getWorkspaceRole(user.id, params.id);
+    if (!role) {
+      return workspaceNotFound();
+    }
+    if (!canAccess(role, 'manage')) {
+      return workspaceForbidden('manage');
+    }
+
+    const { email, role: invitedRole = 'editor' } = await request.json();
+    if (typeof email !== 'string' || !EMAIL.test(email.trim())) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+    }
+    if (!isWorkspaceRole(invitedRole)) {
+      return NextResponse.json({ error: `role must be one of: ${WORKSPACE_ROLES.join(', ')}` }, { status: 400 });
+    }
+
+    const { invitation, token } = await createInvitation({
+      workspaceId: params.id,
+      email,
+      role: invitedRole,
+      invitedById: user.id
+    });
+
+    return NextResponse.json({ token, invitation: serializeInvitation(invitation) }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Create workspace invitation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create workspace invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import {
+  WORKSPACE_ROLES,
+  WorkspaceError,
+  canAccess,
+  getWorkspaceRole,
+  isWorkspaceRole,
+  updateMembership,
+  workspaceForbidden,
+  workspaceNotFound
+} from '@/lib/workspaces';
+
+// Changes a member's `role`; owners only
+export async function PATCH(request: NextRequest, { params }: { params: { id: string; userId: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const role = await getWorkspaceRole(user.id, params.id);
+    if (!role) {
+      return workspaceNotFound();
+    }
+    if (!canAccess(role, 'manage')) {
+      return workspaceForbidden('manage');
+    }
+
+    const body = await request.json();
+    if (!isWorkspaceRole(body.role)) {
+      return NextResponse.json({ error: `role must be one of: ${WORKSPACE_ROLES.join(', ')}` }, { status: 400 });
+    }
+
+    await updateMembership(params.id, params.userId, body.role);
+
+    return NextResponse.json({ member: { userId: params.userId, role: body.role } });
+
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Update workspace member error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update workspace member' },
+      { status: 500 }
+    );
+  }
+}
+
+// Owners remove members; anyone may remove themselves to leave the workspace
+export async function DELETE(request: NextRequest, { params }: { params: { id: string; userId: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const role = await getWorkspaceRole(user.id, params.id);
+    if (!role) {
+      return workspaceNotFound();
+    }
+    if (params.userId !== user.id && !canAccess(role, 'manage')) {
+      return workspaceForbidden('manage');
+    }
+
+    await updateMembership(params.id, params.userId, null);
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Remove workspace member error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove workspace member' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { getWorkspaceRole, workspaceNotFound } from '@/lib/workspaces';
+
+// Every member sees who else is in the workspace; owners change roles through /members/[userId]
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    if (!(await getWorkspaceRole(user.id, params.id))) {
+      return workspaceNotFound();
+    }
+
+    const members = await prisma.workspaceMember.findMany({
+      where: { workspaceId: params.id },
+      include: { user: { select: { id: true, email: true, name: true } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return NextResponse.json({
+      members: members.map(member => ({
+        userId: member.userId,
+        email: member.user.email,
+        name: member.user.name,
+        role: member.role,
+        joinedAt: member.createdAt
+      }))
+    });
+
+  } catch (error) {
+    console.error('List workspace members error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch workspace members' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { canAccess, getWorkspaceRole, parseWorkspaceName, workspaceForbidden, workspaceNotFound } from '@/lib/workspaces';
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const role = await getWorkspaceRole(user.id, params.id);
+    if (!role) {
+      return workspaceNotFound();
+    }
+
+    const workspace = await prisma.workspace.findUniqueOrThrow({
+      where: { id: params.id },
+      include: { _count: { select: { members: true, conversations: true, files: true, llmConfigs: true } } }
+    });
+    const { _count, ...rest } = workspace;
+
+    return NextResponse.json({
+      workspace: {
+        ...rest,
+        role,
+        memberCount: _count.members,
+        conversationCount: _count.conversations,
+        fileCount: _count.files,
+        llmConfigCount: _count.llmConfigs
+      }
+    });
+
+  } catch (error) {
+    console.error('Get workspace error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch workspace' },
+      { status: 500 }
+    );
+  }
+}
+
+// Renames the workspace; owners only
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const role = await getWorkspaceRole(user.id, params.id);
+    if (!role) {
+      return workspaceNotFound();
+    }
+    if (!canAccess(role, 'manage')) {
+      return workspaceForbidden('manage');
+    }
+
+    const { name } = await request.json();
+    const parsed = parseWorkspaceName(name);
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const workspace = await prisma.workspace.update({
+      where: { id: params.id },
+      data: { name: parsed.data }
+    });
+
+    return NextResponse.json({ workspace: { ...workspace, role } });
+
+  } catch (error) {
+    console.error('Update workspace error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update workspace' },
+      { status: 500 }
+    );
+  }
+}
+
+// Deletes the workspace with its conversations, files, LLM configurations and tool overrides
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const role = await getWorkspaceRole(user.id, params.id);
+    if (!role) {
+      return workspaceNotFound();
+    }
+    if (!canAccess(role, 'manage')) {
+      return workspaceForbidden('manage');
+    }
+
+    await prisma.workspace.delete({ where: { id: params.id } });
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Delete workspace error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete workspace' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { ToolRegistry } from '@/lib/tools/tool-registry';
+import { canAccess, getDisabledTools, getWorkspaceRole, workspaceForbidden, workspaceNotFound } from '@/lib/workspaces';
+
+const toolRegistry = new ToolRegistry();
+
+// Every tool with whether the workspace's members may use it, in chat and through /api/tools
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    if (!(await getWorkspaceRole(user.id, params.id))) {
+      return workspaceNotFound();
+    }
+
+    const disabled = await getDisabledTools(params.id);
+
+    return NextResponse.json({
+      tools: toolRegistry.listTools().map(name => ({ name, isEnabled: !disabled.includes(name) }))
+    });
+
+  } catch (error) {
+    console.error('Get workspace tools error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch workspace tools' },
+      { status: 500 }
+    );
+  }
+}
+
+// Turns tool `name` on or off for the workspace with `isEnabled`; owners only
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const role = await getWorkspaceRole(user.id, params.id);
+    if (!role) {
+      return workspaceNotFound();
+    }
+    if (!canAccess(role, 'manage')) {
+      return workspaceForbidden('manage');
+    }
+
+    const { name, isEnabled } = await request.json();
+    if (typeof name !== 'string' || !toolRegistry.getTool(name)) {
+      return NextResponse.json({ error: `Tool '${name}' not found` }, { status: 404 });
+    }
+    if (typeof isEnabled !== 'boolean') {
+      return NextResponse.json({ error: 'isEnabled must be a boolean' }, { status: 400 });
+    }
+
+    const existing = await prisma.toolConfiguration.findFirst({ where: { workspaceId: params.id, name } });
+    if (existing) {
+      await prisma.toolConfiguration.update({ where: { id: existing.id }, data: { isEnabled } });
+    } else {
+      await prisma.toolConfiguration.create({
+        data: { workspaceId: params.id, name, type: 'builtin', config: {}, isEnabled, isGlobal: false }
+      });
+    }
+
+    return NextResponse.json({ tool: { name, isEnabled } });
+
+  } catch (error) {
+    console.error('Update workspace tool error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update workspace tool' },
+      { status: 500 }
+    );
+  }
+}
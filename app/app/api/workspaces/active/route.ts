@@ -0,0 +1,41 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { getWorkspaceRole, workspaceNotFound } from '@/lib/workspaces';
+
+/**
+ * Switches the workspace that conversations, files and LLM configurations are listed from and
+ * created in: `workspaceId` of a workspace the user belongs to, or null for their personal
+ * space. Scripts can instead send `X-Workspace-Id` with each request.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const { workspaceId } = await request.json();
+    if (workspaceId !== null && typeof workspaceId !== 'string') {
+      return NextResponse.json({ error: 'workspaceId must be a string or null' }, { status: 400 });
+    }
+
+    const role = await getWorkspaceRole(user.id, workspaceId);
+    if (!role) {
+      return workspaceNotFound();
+    }
+
+    await prisma.user.update({ where: { id: user.id }, data: { activeWorkspaceId: workspaceId } });
+
+    return NextResponse.json({ activeWorkspaceId: workspaceId, role });
+
+  } catch (error) {
+    console.error('Switch workspace error:', error);
+    return NextResponse.json(
+      { error: 'Failed to switch workspace' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { WorkspaceError, acceptInvitation } from '@/lib/workspaces';
+
+// Joins the workspace with the invitation `token`; the signed-in account must have the invited email
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const { token } = await request.json();
+    if (!token || typeof token !== 'string') {
+      return NextResponse.json({ error: 'Token is required' }, { status: 400 });
+    }
+
+    const membership = await acceptInvitation(user, token.trim());
+
+    return NextResponse.json({ workspace: { ...membership.workspace, role: membership.role } }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Accept workspace invitation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to accept workspace invitation' },
+      { status: 500 }
+    );
+  }
+}
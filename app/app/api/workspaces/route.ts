@@ -0,0 +1,73 @@
+export const dynamic = "force-dynamic";
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { getSessionUser, unauthorized } from '@/lib/auth';
+import { parseWorkspaceName } from '@/lib/workspaces';
+
+// The workspaces the user belongs to with their role in each, and which one is active
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const memberships = await prisma.workspaceMember.findMany({
+      where: { userId: user.id },
+      include: { workspace: { include: { _count: { select: { members: true } } } } },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return NextResponse.json({
+      workspaces: memberships.map(({ role, workspace: { _count, ...workspace } }) => ({
+        ...workspace,
+        role,
+        memberCount: _count.members
+      })),
+      // Null for the personal space, also when the user has left the workspace that was active
+      activeWorkspaceId: memberships.some(membership => membership.workspaceId === user.activeWorkspaceId)
+        ? user.activeWorkspaceId
+        : null
+    });
+
+  } catch (error) {
+    console.error('List workspaces error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch workspaces' },
+      { status: 500 }
+    );
+  }
+}
+
+// Creates a workspace with the caller as its owner; it does not become active until switched to
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getSessionUser();
+    if (!user) {
+      return unauthorized();
+    }
+
+    const { name } = await request.json();
+    const parsed = parseWorkspaceName(name);
+    if (parsed.error !== undefined) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const workspace = await prisma.workspace.create({
+      data: {
+        name: parsed.data,
+        members: { create: { userId: user.id, role: 'owner' } }
+      }
+    });
+
+    return NextResponse.json({ workspace: { ...workspace, role: 'owner', memberCount: 1 } }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create workspace error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create workspace' },
+      { status: 500 }
+    );
+  }
+}
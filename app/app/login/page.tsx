@@ -0,0 +1,109 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { signIn } from 'next-auth/react';
+
+// Email/password sign-in; "Create account" registers first and then signs in with the same credentials
+export default function LoginPage() {
+  const [mode, setMode] = useState<'signin' | 'register'>('signin');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setSubmitting(true);
+
+    try {
+      if (mode === 'register') {
+        const response = await fetch('/api/auth/register', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ email, password, name })
+        });
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          setError(data.error || 'Could not create the account');
+          return;
+        }
+      }
+
+      const result = await signIn('credentials', { email, password, redirect: false });
+      if (!result || result.error) {
+        setError('Wrong email or password');
+        return;
+      }
+
+      const callbackUrl = new URLSearchParams(window.location.search).get('callbackUrl');
+      window.location.href = callbackUrl && callbackUrl.startsWith('/') ? callbackUrl : '/';
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass = 'w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-gray-900 dark:text-gray-100';
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-50 dark:bg-gray-900 px-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm space-y-4 rounded-lg bg-white dark:bg-gray-800 p-6 shadow"
+      >
+        <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
+          {mode === 'signin' ? 'Sign in to Avilink' : 'Create an account'}
+        </h1>
+
+        {mode === 'register' && (
+          <input
+            type="text"
+            placeholder="Name (optional)"
+            value={name}
+            onChange={event => setName(event.target.value)}
+            className={inputClass}
+          />
+        )}
+        <input
+          type="email"
+          placeholder="Email"
+          required
+          value={email}
+          onChange={event => setEmail(event.target.value)}
+          className={inputClass}
+        />
+        <input
+          type="password"
+          placeholder="Password"
+          required
+          minLength={mode === 'register' ? 8 : undefined}
+          value={password}
+          onChange={event => setPassword(event.target.value)}
+          className={inputClass}
+        />
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full rounded-md bg-blue-600 px-3 py-2 font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {mode === 'signin' ? 'Sign in' : 'Create account'}
+        </button>
+
+        <button
+          type="button"
+          onClick={() => {
+            setMode(mode === 'signin' ? 'register' : 'signin');
+            setError(null);
+          }}
+          className="w-full text-sm text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+        >
+          {mode === 'signin' ? 'No account yet? Create one' : 'Already have an account? Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
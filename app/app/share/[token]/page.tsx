@@ -0,0 +1,90 @@
+import { notFound } from 'next/navigation';
+import { loadSharedConversation } from '@/lib/chat/shares';
+import { SharedMessage } from '@/lib/types';
+
+export const dynamic = "force-dynamic";
+
+function formatTime(date: Date) {
+  return new Date(date).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+function formatJSON(value: unknown) {
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+function ToolMessage({ message }: { message: SharedMessage }) {
+  return (
+    <details className="rounded-lg border border-gray-200 dark:border-gray-700 px-4 py-2 text-sm">
+      <summary className="cursor-pointer font-medium text-gray-700 dark:text-gray-300">
+        Tool: {message.tool?.name}
+      </summary>
+      <pre className="mt-2 whitespace-pre-wrap break-words rounded bg-gray-100 dark:bg-gray-800 p-2 text-xs">
+        {formatJSON(message.tool?.parameters)}
+      </pre>
+      <pre className="mt-2 whitespace-pre-wrap break-words rounded bg-gray-100 dark:bg-gray-800 p-2 text-xs">
+        {formatJSON(message.tool?.result)}
+      </pre>
+    </details>
+  );
+}
+
+// Read-only view of a shared conversation; the owner's account and settings are not involved
+export default async function SharedConversationPage({ params }: { params: { token: string } }) {
+  const conversation = await loadSharedConversation(params.token);
+  if (!conversation) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <main className="mx-auto max-w-3xl px-4 py-8">
+        <header className="mb-6 border-b border-gray-200 dark:border-gray-700 pb-4">
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
+            {conversation.title || 'Shared conversation'}
+          </h1>
+          <p className="text-sm text-gray-500">
+            Shared {formatTime(conversation.sharedAt)}
+            {conversation.frozen ? ' · snapshot' : ''}
+            {conversation.expiresAt ? ` · available until ${formatTime(conversation.expiresAt)}` : ''}
+          </p>
+        </header>
+
+        <div className="space-y-4">
+          {conversation.messages.map(message => (
+            message.role === 'tool' ? (
+              <ToolMessage key={message.id} message={message} />
+            ) : (
+              <section
+                key={message.id}
+                className={`rounded-lg px-4 py-3 ${
+                  message.role === 'user' ? 'bg-blue-50 dark:bg-blue-950' : 'bg-white dark:bg-gray-800'
+                }`}
+              >
+                <div className="mb-1 flex items-center gap-2 text-sm">
+                  <span className="font-semibold text-gray-900 dark:text-gray-100">
+                    {message.role === 'user' ? 'User' : 'Assistant'}
+                  </span>
+                  <span className="text-gray-500">{formatTime(message.createdAt)}</span>
+                </div>
+                <div className="whitespace-pre-wrap break-words text-gray-800 dark:text-gray-200">
+                  {message.content}
+                </div>
+                {message.attachments && message.attachments.length > 0 && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    Attachments: {message.attachments.map(file => file.name || 'file').join(', ')}
+                  </p>
+                )}
+              </section>
+            )
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,28 +1,100 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Conversation, Message } from '@/lib/types';
+import { useState, useEffect, useRef } from 'react';
+import { ChatStreamEvent, Conversation, ConversationFilters, ConversationShare, Folder, Message, Persona, SearchHit } from '@/lib/types';
+import { readServerSentEvents } from '@/lib/sse';
+import { signOut as endSession } from 'next-auth/react';
+
+const CONVERSATION_PAGE_SIZE = 20;
+const MESSAGE_PAGE_SIZE = 50;
+// The server saves a cancelled answer once it notices the disconnect; reload after this long
+const CANCELLED_RELOAD_DELAY_MS = 1000;
+
+// The server's list order: pinned first, then most recently updated
+function sortConversations(conversations: Conversation[]): Conversation[] {
+  return [...conversations].sort((a, b) =>
+    Number(Boolean(b.isPinned)) - Number(Boolean(a.isPinned)) ||
+    new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+  );
+}
 
 export function useChat() {
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [currentConversation, setCurrentConversation] = useState<Conversation | null>(null);
   const [loading, setLoading] = useState(false);
+  const [archivedConversations, setArchivedConversations] = useState<Conversation[]>([]);
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [conversationsCursor, setConversationsCursor] = useState<string | null>(null);
+  const [archivedCursor, setArchivedCursor] = useState<string | null>(null);
+  // Cursor for the next older page of each conversation whose messages were loaded; null once all are
+  const [messageCursors, setMessageCursors] = useState<Record<string, string | null>>({});
+  const [loadingMessages, setLoadingMessages] = useState(false);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [tags, setTags] = useState<Array<{ tag: string; count: number }>>([]);
+  const [conversationFilters, setConversationFiltersState] = useState<ConversationFilters>({});
+  // Persona switches not yet sent to the server, keyed by conversation id
+  const pendingPersonaIds = useRef<Record<string, string | null>>({});
+  // The turn being streamed, so it can be stopped
+  const activeRequest = useRef<AbortController | null>(null);
 
   useEffect(() => {
-    loadConversations();
+    // Search hits link to `/?conversation=<id>&message=<id>`
+    const params = new URLSearchParams(window.location.search);
+    const linkedConversationId = params.get('conversation');
+
+    loadConversations().then(() => {
+      if (linkedConversationId) {
+        openMessage(linkedConversationId, params.get('message') || undefined);
+      }
+    });
+    loadPersonas();
+    loadFolders();
+    loadTags();
   }, []);
 
-  const loadConversations = async () => {
+  const loadPersonas = async () => {
     try {
-      const response = await fetch('/api/chat?userId=default-session');
+      const response = await fetch('/api/personas');
       if (response.ok) {
         const data = await response.json();
-        setConversations(data.conversations || []);
-        if (data.conversations && data.conversations.length > 0) {
-          setCurrentConversation(data.conversations[0]);
-        }
-      } else {
-        createWelcomeConversation();
+        setPersonas(data.personas || []);
+      }
+    } catch (error) {
+      console.error('Error loading personas:', error);
+    }
+  };
+
+  // Summaries come without messages; those are loaded when a conversation is opened
+  const fetchConversationPage = async (cursor?: string | null, filters: ConversationFilters = conversationFilters) => {
+    const params = new URLSearchParams({ limit: String(CONVERSATION_PAGE_SIZE) });
+    if (cursor) params.set('cursor', cursor);
+    if (filters.folderId) params.set('folder', filters.folderId);
+    if (filters.tags && filters.tags.length > 0) params.set('tag', filters.tags.join(','));
+    if (filters.pinned !== undefined) params.set('pinned', String(filters.pinned));
+    if (filters.archived !== undefined) params.set('archived', String(filters.archived));
+
+    const response = await fetch(`/api/conversations?${params}`);
+    // The session expired since the page loaded
+    if (response.status === 401) {
+      window.location.href = '/login';
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to load conversations: ${response.status}`);
+    }
+    const data = await response.json();
+    return {
+      conversations: (data.conversations || []).map((conv: Conversation) => ({ ...conv, messages: [] })) as Conversation[],
+      nextCursor: (data.nextCursor || null) as string | null
+    };
+  };
+
+  const loadConversations = async () => {
+    try {
+      const page = await fetchConversationPage();
+      setConversations(page.conversations);
+      setConversationsCursor(page.nextCursor);
+      if (page.conversations.length > 0) {
+        selectConversation(page.conversations[0]);
       }
     } catch (error) {
       console.error('Error loading conversations:', error);
@@ -30,11 +102,115 @@ export function useChat() {
     }
   };
 
+  // Replaces the list with the first page matching `filters`; the open conversation stays open
+  const setConversationFilters = async (filters: ConversationFilters) => {
+    setConversationFiltersState(filters);
+    try {
+      const page = await fetchConversationPage(null, filters);
+      setConversations(page.conversations);
+      setConversationsCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error filtering conversations:', error);
+    }
+  };
+
+  const loadMoreConversations = async () => {
+    if (!conversationsCursor) return;
+
+    try {
+      const page = await fetchConversationPage(conversationsCursor);
+      setConversations(prev => [
+        ...prev,
+        ...page.conversations.filter(conv => !prev.some(existing => existing.id === conv.id))
+      ]);
+      setConversationsCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more conversations:', error);
+    }
+  };
+
+  const fetchMessagePage = async (conversationId: string, before?: string) => {
+    const params = new URLSearchParams({ limit: String(MESSAGE_PAGE_SIZE) });
+    if (before) params.set('before', before);
+
+    const response = await fetch(`/api/conversations/${conversationId}/messages?${params}`);
+    if (!response.ok) {
+      throw new Error(`Failed to load messages: ${response.status}`);
+    }
+    return response.json() as Promise<{ messages: Message[]; nextCursor: string | null }>;
+  };
+
+  const prependMessages = (conversationId: string, messages: Message[]) => {
+    const prepend = (conv: Conversation) => conv.id === conversationId
+      ? { ...conv, messages: [...messages.filter(msg => !conv.messages.some(existing => existing.id === msg.id)), ...conv.messages] }
+      : conv;
+    setConversations(prev => prev.map(prepend));
+    setCurrentConversation(prev => (prev ? prepend(prev) : prev));
+  };
+
+  // Fetches the page of messages preceding the oldest one shown, e.g. when the user scrolls up
+  const loadOlderMessages = async () => {
+    const conversationId = currentConversation?.id;
+    const cursor = conversationId ? messageCursors[conversationId] : null;
+    if (!conversationId || !cursor || loadingMessages) return;
+
+    setLoadingMessages(true);
+    try {
+      const page = await fetchMessagePage(conversationId, cursor);
+      prependMessages(conversationId, page.messages);
+      setMessageCursors(prev => ({ ...prev, [conversationId]: page.nextCursor }));
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      setLoadingMessages(false);
+    }
+  };
+
+  // Opens a conversation on the branch containing `messageId`, e.g. from a search hit
+  const openMessage = async (conversationId: string, messageId?: string) => {
+    try {
+      if (messageId) {
+        await updateConversationRequest(conversationId, { activeMessageId: messageId });
+      }
+
+      const response = await fetch(`/api/conversations/${conversationId}`);
+      if (!response.ok) {
+        throw new Error(`Failed to load conversation: ${response.status}`);
+      }
+      const data = await response.json();
+      const conversation: Conversation = data.conversation;
+
+      setConversations(prev => (prev.some(conv => conv.id === conversationId)
+        ? prev.map(conv => (conv.id === conversationId ? conversation : conv))
+        : [conversation, ...prev]));
+      setCurrentConversation(conversation);
+      // The conversation endpoint returns the whole branch
+      setMessageCursors(prev => ({ ...prev, [conversationId]: null }));
+    } catch (error) {
+      console.error('Error opening message:', error);
+    }
+  };
+
+  const searchMessages = async (
+    query: string,
+    filters: { type?: string; role?: string; from?: string; to?: string; conversationId?: string; tool?: string; offset?: number } = {}
+  ): Promise<{ hits: SearchHit[]; nextOffset: number | null }> => {
+    const params = new URLSearchParams({ q: query });
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+
+    const response = await fetch(`/api/search?${params}`);
+    if (!response.ok) {
+      throw new Error(`Search failed: ${response.status}`);
+    }
+    return response.json();
+  };
+
   const createWelcomeConversation = () => {
     const welcomeConversation: Conversation = {
       id: 'welcome',
       title: 'Getting Started with Avilink',
-      userId: 'default-session',
       createdAt: new Date(),
       updatedAt: new Date(),
       isArchived: false,
@@ -58,118 +234,630 @@ export function useChat() {
       const newConversation: Conversation = {
         id: `temp-${Date.now()}`,
         title: 'New Chat',
-        userId: 'default-session',
         createdAt: new Date(),
         updatedAt: new Date(),
         isArchived: false,
         messages: []
       };
 
-      const updatedConversations = [newConversation, ...conversations];
-      setConversations(updatedConversations);
+      setConversations(prev => [newConversation, ...prev]);
       setCurrentConversation(newConversation);
     } catch (error) {
       console.error('Error creating conversation:', error);
     }
   };
 
-  const sendMessage = async (content: string, files?: File[]) => {
+  // Takes effect with the next message; null switches back to the default persona
+  const selectPersona = (personaId: string | null) => {
     if (!currentConversation) return;
 
+    pendingPersonaIds.current[currentConversation.id] = personaId;
+    const updated = {
+      ...currentConversation,
+      metadata: { ...currentConversation.metadata, personaId }
+    };
+    setCurrentConversation(updated);
+    setConversations(prev => prev.map(conv => (conv.id === updated.id ? updated : conv)));
+  };
+
+  /**
+   * Streams one turn from `url` into the current conversation. `messages` is what stays on
+   * screen above it, followed by `userMessage` when the turn adds one and a placeholder that
+   * fills in with the answer. `files` are uploaded first and sent as `fileIds`. Resolves to
+   * whether the answer was saved; a stopped turn keeps
+   * its partial answer on screen.
+   */
+  const streamTurn = async (
+    url: string,
+    body: Record<string, any>,
+    options: { messages: Message[]; userMessage?: Message; title?: string; files?: File[] }
+  ): Promise<boolean> => {
+    if (!currentConversation) return false;
+
     setLoading(true);
-    
-    const userMessage: Message = {
-      id: `temp-${Date.now()}`,
+
+    // The conversation id changes from `temp-*` to the real one once the server has created it
+    let conversationKey = currentConversation.id;
+    const updateConversation = (updater: (conversation: Conversation) => Conversation) => {
+      const key = conversationKey;
+      setCurrentConversation(prev => (prev && prev.id === key ? updater(prev) : prev));
+      setConversations(prev => prev.map(conv => (conv.id === key ? updater(conv) : conv)));
+    };
+    const updateMessage = (messageId: string, updater: (message: Message) => Message) => {
+      updateConversation(conv => ({
+        ...conv,
+        messages: conv.messages.map(msg => (msg.id === messageId ? updater(msg) : msg))
+      }));
+    };
+
+    const userMessageId = options.userMessage?.id;
+
+    // Placeholder that fills in as deltas arrive and is swapped for the saved message at the end
+    let assistantMessageId = `streaming-${Date.now()}`;
+    const assistantMessage: Message = {
+      id: assistantMessageId,
       conversationId: currentConversation.id,
-      role: 'user',
-      content,
+      role: 'assistant',
+      content: '',
       createdAt: new Date(),
       updatedAt: new Date(),
-      metadata: files ? { attachments: files.map(f => ({ name: f.name, size: f.size, type: f.type })) } : undefined
+      metadata: { status: 'streaming' }
     };
 
-    const updatedMessages = [...(currentConversation.messages || []), userMessage];
-    
     const updatedConversation = {
       ...currentConversation,
-      messages: updatedMessages,
+      messages: [...options.messages, ...(options.userMessage ? [options.userMessage] : []), assistantMessage],
       updatedAt: new Date(),
-      title: currentConversation.title || content.slice(0, 50) + (content.length > 50 ? '...' : '')
+      title: currentConversation.title || options.title
     };
 
     setCurrentConversation(updatedConversation);
-    
+    setConversations(prev => prev.map(conv => (conv.id === conversationKey ? updatedConversation : conv)));
+
+    let messageSaved = false;
+    const controller = new AbortController();
+    activeRequest.current = controller;
+
     try {
-      const conversationId = currentConversation.id.startsWith('temp-') ? null : currentConversation.id;
-      
-      const response = await fetch('/api/chat', {
+      const personaId = pendingPersonaIds.current[currentConversation.id];
+      delete pendingPersonaIds.current[currentConversation.id];
+
+      const fileIds = options.files && options.files.length > 0 ? await uploadFiles(options.files) : undefined;
+
+      const response = await fetch(url, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          message: content, 
-          conversationId,
-          files: files ? Array.from(files).map(f => ({ name: f.name, size: f.size, type: f.type })) : undefined
-        })
+        body: JSON.stringify({ ...body, fileIds, personaId, stream: true }),
+        signal: controller.signal
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         throw new Error(`API error: ${response.status}`);
       }
 
-      const data = await response.json();
-      
-      const finalConversation = {
-        ...updatedConversation,
-        id: data.conversationId,
-        messages: [
-          ...updatedMessages,
-          {
-            id: data.message.id,
-            conversationId: data.conversationId,
-            role: data.message.role,
-            content: data.message.content,
-            createdAt: new Date(data.message.createdAt),
-            updatedAt: new Date(data.message.createdAt)
+      for await (const { data } of readServerSentEvents(response.body)) {
+        const event = JSON.parse(data) as ChatStreamEvent;
+
+        switch (event.type) {
+          case 'start':
+            updateConversation(conv => ({
+              ...conv,
+              id: event.conversationId,
+              messages: conv.messages.map(msg => (msg.id === userMessageId
+                ? {
+                    ...msg,
+                    id: event.userMessageId,
+                    conversationId: event.conversationId,
+                    // What of each attachment the model was actually sent
+                    metadata: event.attachments ? { ...msg.metadata, attachments: event.attachments } : msg.metadata
+                  }
+                : { ...msg, conversationId: event.conversationId }))
+            }));
+            conversationKey = event.conversationId;
+            // A conversation created by this message has no older history to page through
+            setMessageCursors(prev => (event.conversationId in prev ? prev : { ...prev, [event.conversationId]: null }));
+            break;
+
+          case 'delta':
+            updateMessage(assistantMessageId, msg => ({ ...msg, content: msg.content + event.content }));
+            break;
+
+          case 'tool_call':
+            updateMessage(assistantMessageId, msg => ({
+              ...msg,
+              metadata: {
+                ...msg.metadata,
+                toolCalls: [
+                  ...(msg.metadata?.toolCalls || []),
+                  { id: event.toolCallId, toolName: event.toolName, arguments: event.arguments, status: 'running' }
+                ]
+              }
+            }));
+            break;
+
+          case 'tool_result':
+            updateMessage(assistantMessageId, msg => ({
+              ...msg,
+              metadata: {
+                ...msg.metadata,
+                toolCalls: (msg.metadata?.toolCalls || []).map((call: any) =>
+                  call.id === event.toolCallId
+                    ? { ...call, result: event.result, status: event.result.success ? 'completed' : 'error' }
+                    : call
+                )
+              }
+            }));
+            break;
+
+          case 'message_saved': {
+            const savedId = event.message.id;
+            updateMessage(assistantMessageId, msg => ({
+              ...msg,
+              id: savedId,
+              parentId: event.message.parentId,
+              content: event.message.content,
+              metadata: { ...msg.metadata, ...event.message.metadata },
+              createdAt: new Date(event.message.createdAt),
+              updatedAt: new Date(event.message.createdAt)
+            }));
+            assistantMessageId = savedId;
+            messageSaved = true;
+            break;
           }
-        ]
-      };
 
-      setCurrentConversation(finalConversation);
-      
-      const finalConversations = conversations.map(conv => 
-        conv.id === currentConversation.id || conv.id === data.conversationId 
-          ? finalConversation 
-          : conv
-      );
-      setConversations(finalConversations);
+          case 'conversation_updated':
+            updateConversation(conv => ({ ...conv, title: event.title || conv.title, summary: event.summary }));
+            break;
+
+          case 'error':
+            throw new Error(event.error);
+        }
+      }
+
+      return messageSaved;
 
     } catch (error) {
+      if (controller.signal.aborted && !messageSaved) {
+        updateMessage(assistantMessageId, msg => ({
+          ...msg,
+          metadata: {
+            ...msg.metadata,
+            status: 'cancelled',
+            toolCalls: msg.metadata?.toolCalls?.map((call: any) =>
+              call.status === 'running' ? { ...call, status: 'cancelled' } : call
+            )
+          }
+        }));
+        // Pick up the saved partial answer so it can be edited and regenerated like any other
+        const conversationId = conversationKey;
+        if (isPersisted(conversationId)) {
+          setTimeout(() => reloadMessages(conversationId), CANCELLED_RELOAD_DELAY_MS);
+        }
+        return false;
+      }
+
       console.error('Error sending message:', error);
-      
+
       const errorMessage: Message = {
         id: `error-${Date.now()}`,
-        conversationId: currentConversation.id,
+        conversationId: conversationKey,
         role: 'assistant',
         content: `I apologize, but I encountered an error: ${error instanceof Error ? error.message : 'Unknown error'}. Please try again.`,
         createdAt: new Date(),
         updatedAt: new Date()
       };
 
-      const errorConversation = {
-        ...updatedConversation,
-        messages: [...updatedMessages, errorMessage]
-      };
-
-      setCurrentConversation(errorConversation);
+      const placeholderId = assistantMessageId;
+      updateConversation(conv => ({
+        ...conv,
+        messages: [
+          // Drop the streaming placeholder unless part of the answer was already persisted
+          ...conv.messages.filter(msg => messageSaved || msg.id !== placeholderId),
+          errorMessage
+        ]
+      }));
+      return false;
     } finally {
+      if (activeRequest.current === controller) {
+        activeRequest.current = null;
+      }
       setLoading(false);
     }
   };
 
-  const selectConversation = (conversation: Conversation) => {
+  // Stops the turn being streamed; the server cancels the model call and any running tool
+  const stopGeneration = () => {
+    activeRequest.current?.abort();
+  };
+
+  // Stores the files through /api/files and returns their ids for the chat request
+  const uploadFiles = async (files: File[]): Promise<string[]> => {
+    const fileIds: string[] = [];
+    for (const file of files) {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/files', { method: 'POST', body: formData });
+      if (!response.ok) {
+        throw new Error(`Failed to upload ${file.name}`);
+      }
+      const data = await response.json();
+      fileIds.push(data.fileId);
+    }
+    return fileIds;
+  };
+
+  const createUserMessage = (content: string, attachments?: File[]): Message => ({
+    id: `temp-${Date.now()}`,
+    conversationId: currentConversation?.id || '',
+    role: 'user',
+    content,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    metadata: attachments ? { attachments: attachments.map(f => ({ name: f.name, size: f.size, type: f.type })) } : undefined
+  });
+
+  const sendMessage = async (content: string, files?: File[]) => {
+    if (!currentConversation) return;
+
+    await streamTurn('/api/chat', {
+      message: content,
+      conversationId: currentConversation.id.startsWith('temp-') ? null : currentConversation.id
+    }, {
+      messages: currentConversation.messages || [],
+      userMessage: createUserMessage(content, files),
+      title: content.slice(0, 50) + (content.length > 50 ? '...' : ''),
+      files: files ? Array.from(files) : undefined
+    });
+  };
+
+  // Replaces the loaded messages with the newest page of the active branch after it changed
+  const reloadMessages = async (conversationId: string) => {
+    try {
+      const page = await fetchMessagePage(conversationId);
+      const replace = (conv: Conversation) => (conv.id === conversationId ? { ...conv, messages: page.messages } : conv);
+      setConversations(prev => prev.map(replace));
+      setCurrentConversation(prev => (prev ? replace(prev) : prev));
+      setMessageCursors(prev => ({ ...prev, [conversationId]: page.nextCursor }));
+    } catch (error) {
+      console.error('Error reloading messages:', error);
+    }
+  };
+
+  // Sends a new version of a user message as its own branch; the original stays available
+  const editMessage = async (messageId: string, content: string) => {
+    if (!currentConversation || !isPersisted(currentConversation.id)) return;
+
+    const index = currentConversation.messages.findIndex(msg => msg.id === messageId);
+    if (index < 0) return;
+
+    const saved = await streamTurn(`/api/conversations/${currentConversation.id}/messages/${messageId}/edit`, { content }, {
+      messages: currentConversation.messages.slice(0, index),
+      userMessage: { ...createUserMessage(content), metadata: currentConversation.messages[index].metadata }
+    });
+    if (saved) {
+      await reloadMessages(currentConversation.id);
+    }
+  };
+
+  // Asks for another answer to the same prompt; earlier answers stay available as alternatives
+  const regenerateMessage = async (messageId: string) => {
+    if (!currentConversation || !isPersisted(currentConversation.id)) return;
+
+    const index = currentConversation.messages.findIndex(msg => msg.id === messageId);
+    if (index < 0) return;
+
+    const saved = await streamTurn(`/api/conversations/${currentConversation.id}/messages/${messageId}/regenerate`, {}, {
+      messages: currentConversation.messages.slice(0, index)
+    });
+    if (saved) {
+      await reloadMessages(currentConversation.id);
+    }
+  };
+
+  // Shows the branch through `messageId`, one of the `siblingIds` of a displayed message
+  const switchBranch = async (messageId: string) => {
+    if (!currentConversation || !isPersisted(currentConversation.id)) return;
+
+    try {
+      await updateConversationRequest(currentConversation.id, { activeMessageId: messageId });
+      await reloadMessages(currentConversation.id);
+    } catch (error) {
+      console.error('Error switching branch:', error);
+      throw error;
+    }
+  };
+
+  const selectConversation = async (conversation: Conversation) => {
     setCurrentConversation(conversation);
+    if (!isPersisted(conversation.id) || conversation.id in messageCursors) return;
+
+    setLoadingMessages(true);
+    try {
+      const page = await fetchMessagePage(conversation.id);
+      prependMessages(conversation.id, page.messages);
+      setMessageCursors(prev => ({ ...prev, [conversation.id]: page.nextCursor }));
+    } catch (error) {
+      console.error('Error loading messages:', error);
+    } finally {
+      setLoadingMessages(false);
+    }
+  };
+
+  // Client-only conversations (`temp-*` and the welcome one) have nothing to update on the server
+  const isPersisted = (conversationId: string) => !conversationId.startsWith('temp-') && conversationId !== 'welcome';
+
+  // After a conversation leaves the active list, move on to the next one or a fresh chat
+  const removeFromActive = (conversationId: string) => {
+    const remaining = conversations.filter(conv => conv.id !== conversationId);
+    setConversations(remaining);
+    if (currentConversation?.id === conversationId) {
+      if (remaining.length > 0) {
+        setCurrentConversation(remaining[0]);
+      } else {
+        createNewConversation();
+      }
+    }
   };
 
+  const updateConversationRequest = async (conversationId: string, updates: Record<string, any>) => {
+    const response = await fetch(`/api/conversations/${conversationId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates)
+    });
+    if (!response.ok) {
+      throw new Error(`Conversation update failed: ${response.status}`);
+    }
+  };
+
+  const renameConversation = async (conversationId: string, title: string) => {
+    try {
+      if (isPersisted(conversationId)) {
+        await updateConversationRequest(conversationId, { title });
+      }
+
+      const rename = (conv: Conversation) => (conv.id === conversationId ? { ...conv, title } : conv);
+      setConversations(prev => prev.map(rename));
+      setArchivedConversations(prev => prev.map(rename));
+      setCurrentConversation(prev => (prev ? rename(prev) : prev));
+    } catch (error) {
+      console.error('Error renaming conversation:', error);
+      throw error;
+    }
+  };
+
+  const archiveConversation = async (conversationId: string) => {
+    try {
+      const conversation = conversations.find(conv => conv.id === conversationId);
+      if (isPersisted(conversationId)) {
+        await updateConversationRequest(conversationId, { isArchived: true });
+        if (conversation) {
+          setArchivedConversations(prev => [{ ...conversation, isArchived: true }, ...prev]);
+        }
+      }
+      removeFromActive(conversationId);
+    } catch (error) {
+      console.error('Error archiving conversation:', error);
+      throw error;
+    }
+  };
+
+  // The first page of archived conversations; further pages come from loadMoreArchivedConversations
+  const loadArchivedConversations = async () => {
+    try {
+      const page = await fetchConversationPage(null, { archived: true });
+      setArchivedConversations(page.conversations);
+      setArchivedCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading archived conversations:', error);
+    }
+  };
+
+  const loadMoreArchivedConversations = async () => {
+    if (!archivedCursor) return;
+
+    try {
+      const page = await fetchConversationPage(archivedCursor, { archived: true });
+      setArchivedConversations(prev => [
+        ...prev,
+        ...page.conversations.filter(conv => !prev.some(existing => existing.id === conv.id))
+      ]);
+      setArchivedCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading more archived conversations:', error);
+    }
+  };
+
+  const restoreConversation = async (conversationId: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}/restore`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(`Restore failed: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const archived = archivedConversations.find(conv => conv.id === conversationId);
+      const conversation: Conversation = { ...archived, ...data.conversation, messages: archived?.messages || [] };
+
+      setArchivedConversations(prev => prev.filter(conv => conv.id !== conversationId));
+      setConversations(prev => sortConversations([conversation, ...prev.filter(conv => conv.id !== conversationId)]));
+      // Messages load lazily on selection, like any other conversation from the list
+      await selectConversation(conversation);
+    } catch (error) {
+      console.error('Error restoring conversation:', error);
+      throw error;
+    }
+  };
+
+  const applyToConversation = (conversationId: string, changes: Partial<Conversation>) => {
+    const apply = (conv: Conversation) => (conv.id === conversationId ? { ...conv, ...changes } : conv);
+    setConversations(prev => sortConversations(prev.map(apply)));
+    setArchivedConversations(prev => prev.map(apply));
+    setCurrentConversation(prev => (prev ? apply(prev) : prev));
+  };
+
+  const pinConversation = async (conversationId: string, isPinned: boolean) => {
+    try {
+      if (isPersisted(conversationId)) {
+        await updateConversationRequest(conversationId, { isPinned });
+      }
+      applyToConversation(conversationId, { isPinned });
+    } catch (error) {
+      console.error('Error pinning conversation:', error);
+      throw error;
+    }
+  };
+
+  const moveConversationToFolder = async (conversationId: string, folderId: string | null) => {
+    try {
+      await updateConversationRequest(conversationId, { folderId });
+      applyToConversation(conversationId, { folderId });
+      loadFolders();
+    } catch (error) {
+      console.error('Error moving conversation:', error);
+      throw error;
+    }
+  };
+
+  const setConversationTags = async (conversationId: string, tags: string[]) => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tags })
+      });
+      if (!response.ok) {
+        throw new Error(`Conversation update failed: ${response.status}`);
+      }
+      // The server's cleaned-up list: trimmed and without duplicates
+      const data = await response.json();
+      applyToConversation(conversationId, { tags: data.conversation.tags });
+      loadTags();
+    } catch (error) {
+      console.error('Error tagging conversation:', error);
+      throw error;
+    }
+  };
+
+  const loadFolders = async () => {
+    try {
+      const response = await fetch('/api/folders');
+      if (response.ok) {
+        const data = await response.json();
+        setFolders(data.folders || []);
+      }
+    } catch (error) {
+      console.error('Error loading folders:', error);
+    }
+  };
+
+  const loadTags = async () => {
+    try {
+      const response = await fetch('/api/conversations/tags');
+      if (response.ok) {
+        const data = await response.json();
+        setTags(data.tags || []);
+      }
+    } catch (error) {
+      console.error('Error loading tags:', error);
+    }
+  };
+
+  const createFolder = async (name: string, color?: string) => {
+    const response = await fetch('/api/folders', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, color })
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to create folder: ${response.status}`);
+    }
+    const data = await response.json();
+    setFolders(prev => [...prev, data.folder]);
+    return data.folder as Folder;
+  };
+
+  const renameFolder = async (folderId: string, name: string) => {
+    const response = await fetch(`/api/folders/${folderId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name })
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to rename folder: ${response.status}`);
+    }
+    const data = await response.json();
+    setFolders(prev => prev.map(folder => (folder.id === folderId ? { ...folder, ...data.folder } : folder)));
+  };
+
+  // Its conversations are kept, outside any folder
+  const deleteFolder = async (folderId: string) => {
+    const response = await fetch(`/api/folders/${folderId}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(`Failed to delete folder: ${response.status}`);
+    }
+    const unfile = (conv: Conversation) => (conv.folderId === folderId ? { ...conv, folderId: null } : conv);
+    setFolders(prev => prev.filter(folder => folder.id !== folderId));
+    setConversations(prev => prev.map(unfile));
+    setArchivedConversations(prev => prev.map(unfile));
+    setCurrentConversation(prev => (prev ? unfile(prev) : prev));
+    if (conversationFilters.folderId === folderId) {
+      await setConversationFilters({ ...conversationFilters, folderId: undefined });
+    }
+  };
+
+  const deleteConversation = async (conversationId: string) => {
+    try {
+      if (isPersisted(conversationId)) {
+        const response = await fetch(`/api/conversations/${conversationId}`, { method: 'DELETE' });
+        if (!response.ok) {
+          throw new Error(`Delete failed: ${response.status}`);
+        }
+      }
+
+      setArchivedConversations(prev => prev.filter(conv => conv.id !== conversationId));
+      removeFromActive(conversationId);
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+      throw error;
+    }
+  };
+
+  const listShares = async (conversationId: string) => {
+    const response = await fetch(`/api/conversations/${conversationId}/shares`);
+    if (!response.ok) {
+      throw new Error(`Failed to load shares: ${response.status}`);
+    }
+    const data = await response.json();
+    return data.shares as ConversationShare[];
+  };
+
+  // `freeze` shares the conversation as it is now instead of following new messages
+  const createShare = async (conversationId: string, options: { freeze?: boolean; expiresAt?: string } = {}) => {
+    const response = await fetch(`/api/conversations/${conversationId}/shares`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(options)
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to create share: ${response.status}`);
+    }
+    const data = await response.json();
+    return data.share as ConversationShare;
+  };
+
+  const revokeShare = async (conversationId: string, shareId: string) => {
+    const response = await fetch(`/api/conversations/${conversationId}/shares/${shareId}`, { method: 'DELETE' });
+    if (!response.ok) {
+      throw new Error(`Failed to revoke share: ${response.status}`);
+    }
+    const data = await response.json();
+    return data.share as ConversationShare;
+  };
+
+  const signOut = () => endSession({ callbackUrl: '/login' });
+
   const executeTool = async (toolName: string, parameters: any) => {
     try {
       const response = await fetch('/api/tools', {
@@ -196,11 +884,49 @@ export function useChat() {
 
   return {
     conversations,
+    archivedConversations,
     currentConversation,
     loading,
+    loadingMessages,
+    hasMoreConversations: conversationsCursor !== null,
+    hasMoreArchivedConversations: archivedCursor !== null,
+    hasMoreMessages: Boolean(currentConversation && messageCursors[currentConversation.id]),
+    personas,
+    folders,
+    tags,
+    conversationFilters,
     createNewConversation,
     sendMessage,
+    stopGeneration,
+    editMessage,
+    regenerateMessage,
+    switchBranch,
     selectConversation,
-    executeTool
+    renameConversation,
+    archiveConversation,
+    restoreConversation,
+    deleteConversation,
+    loadArchivedConversations,
+    loadMoreArchivedConversations,
+    loadMoreConversations,
+    setConversationFilters,
+    pinConversation,
+    moveConversationToFolder,
+    setConversationTags,
+    loadFolders,
+    loadTags,
+    createFolder,
+    renameFolder,
+    deleteFolder,
+    loadOlderMessages,
+    selectPersona,
+    loadPersonas,
+    searchMessages,
+    openMessage,
+    listShares,
+    createShare,
+    revokeShare,
+    executeTool,
+    signOut
   };
 }
\ No newline at end of file
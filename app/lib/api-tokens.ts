@@ -0,0 +1,110 @@
+import { createHash, randomBytes } from 'crypto'
+import { ApiToken } from '@prisma/client'
+import { prisma } from '@/lib/db'
+
+// Tokens look like `avl_<43 base64url characters>`; the prefix makes leaked tokens easy to spot
+const TOKEN_PREFIX = 'avl_'
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6
+const MAX_NAME_LENGTH = 100
+// Updating lastUsedAt on every request would turn each call into a write
+const LAST_USED_PRECISION_MS = 60 * 1000
+
+// `tools:<name>` allows one tool and `tools:*` all of them
+export const API_SCOPES = ['chat', 'tools:*', 'files:read', 'files:write'] as const
+
+export interface ApiTokenInput {
+  name: string
+  scopes: string[]
+  expiresAt: Date | null
+}
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+export function generateApiToken() {
+  const token = TOKEN_PREFIX + randomBytes(32).toString('base64url')
+  return { token, tokenHash: hashApiToken(token), prefix: token.slice(0, DISPLAY_PREFIX_LENGTH) }
+}
+
+export function parseApiTokenInput(
+  body: any,
+  toolNames: string[]
+): { data: ApiTokenInput; error?: undefined } | { data?: undefined; error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Request body must be an object' }
+  }
+  if (typeof body.name !== 'string' || !body.name.trim()) {
+    return { error: 'Name is required' }
+  }
+  if (!Array.isArray(body.scopes) || body.scopes.length === 0 || body.scopes.some((scope: unknown) => typeof scope !== 'string')) {
+    return { error: 'Scopes must be a non-empty array of strings' }
+  }
+
+  const allowed: string[] = [...API_SCOPES, ...toolNames.map(name => `tools:${name}`)]
+  const unknown = body.scopes.filter((scope: string) => !allowed.includes(scope))
+  if (unknown.length > 0) {
+    return { error: `Unknown scopes: ${unknown.join(', ')}` }
+  }
+
+  let expiresAt: Date | null = null
+  if (body.expiresAt !== undefined && body.expiresAt !== null) {
+    expiresAt = new Date(body.expiresAt)
+    if (typeof body.expiresAt !== 'string' || isNaN(expiresAt.getTime())) {
+      return { error: 'expiresAt must be an ISO date or null' }
+    }
+    if (expiresAt.getTime() <= Date.now()) {
+      return { error: 'expiresAt must be in the future' }
+    }
+  }
+
+  return {
+    data: {
+      name: body.name.trim().slice(0, MAX_NAME_LENGTH),
+      scopes: Array.from(new Set(body.scopes as string[])),
+      expiresAt,
+    },
+  }
+}
+
+export function isApiTokenActive(token: Pick<ApiToken, 'expiresAt' | 'revokedAt'>): boolean {
+  return !token.revokedAt && (!token.expiresAt || token.expiresAt.getTime() > Date.now())
+}
+
+export function tokenHasScope(scopes: string[], scope: string): boolean {
+  return scopes.includes(scope) || (scope.startsWith('tools:') && scopes.includes('tools:*'))
+}
+
+// Never includes the hash; the token itself is only returned once, when it is created
+export function serializeApiToken(token: ApiToken) {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    scopes: token.scopes,
+    expiresAt: token.expiresAt,
+    lastUsedAt: token.lastUsedAt,
+    revokedAt: token.revokedAt,
+    status: token.revokedAt ? 'revoked' : isApiTokenActive(token) ? 'active' : 'expired',
+    createdAt: token.createdAt,
+  }
+}
+
+/**
+ * Looks up the token presented in an `Authorization: Bearer` header. Returns null for
+ * unknown, revoked and expired tokens.
+ */
+export async function findActiveApiToken(token: string) {
+  if (!token.startsWith(TOKEN_PREFIX)) return null
+
+  const record = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    include: { user: true },
+  })
+  if (!record || !isApiTokenActive(record)) return null
+
+  if (!record.lastUsedAt || Date.now() - record.lastUsedAt.getTime() > LAST_USED_PRECISION_MS) {
+    await prisma.apiToken.update({ where: { id: record.id }, data: { lastUsedAt: new Date() } })
+  }
+  return record
+}
@@ -0,0 +1,151 @@
+import { NextResponse } from 'next/server'
+import { NextAuthOptions, getServerSession } from 'next-auth'
+import CredentialsProvider from 'next-auth/providers/credentials'
+import { compare, hash } from 'bcryptjs'
+import { User } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { findActiveApiToken, tokenHasScope } from '@/lib/api-tokens'
+
+const PASSWORD_ROUNDS = 12
+const MIN_PASSWORD_LENGTH = 8
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+// The user every request belonged to before sign-in existed
+const LEGACY_SESSION_ID = 'default-session'
+// Accounts with these emails are admins whatever their role, so a fresh install can get its first one
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean)
+
+export class RegistrationError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'RegistrationError'
+  }
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+// Credentials sessions are JWTs: next-auth v4 only stores database sessions for OAuth sign-ins
+export const authOptions: NextAuthOptions = {
+  session: { strategy: 'jwt' },
+  pages: { signIn: '/login' },
+  providers: [
+    CredentialsProvider({
+      name: 'Email',
+      credentials: {
+        email: { label: 'Email', type: 'email' },
+        password: { label: 'Password', type: 'password' },
+      },
+      async authorize(credentials) {
+        if (!credentials?.email || !credentials.password) return null
+
+        const user = await prisma.user.findUnique({ where: { email: normalizeEmail(credentials.email) } })
+        if (!user?.passwordHash || !(await compare(credentials.password, user.passwordHash))) {
+          return null
+        }
+        return { id: user.id, email: user.email, name: user.name }
+      },
+    }),
+  ],
+  callbacks: {
+    jwt({ token, user }) {
+      if (user) token.userId = user.id
+      return token
+    },
+    session({ session, token }) {
+      if (session.user && token.userId) session.user.id = token.userId
+      return session
+    },
+  },
+}
+
+/**
+ * The signed-in user of the current request, read from the session cookie on the server.
+ * Null when there is no valid session or the account no longer exists; routes answer
+ * those requests with `unauthorized()`.
+ */
+export async function getSessionUser() {
+  const session = await getServerSession(authOptions)
+  const userId = session?.user?.id
+  if (!userId) return null
+
+  return prisma.user.findUnique({ where: { id: userId } })
+}
+
+export function unauthorized() {
+  return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+}
+
+export interface RequestAuth {
+  user: User
+  // The API token the request was made with and its scopes; null for browser sessions, which may do anything
+  tokenId: string | null
+  scopes: string[] | null
+}
+
+/**
+ * For routes that scripts may call: a personal API token in `Authorization: Bearer <token>`,
+ * or else the browser session. A request that presents a token is never treated as a
+ * session request, so an invalid token is rejected even with a session cookie.
+ */
+export async function getRequestAuth(request: Request): Promise<RequestAuth | null> {
+  const header = request.headers.get('authorization')
+  if (header && /^Bearer\s/i.test(header)) {
+    const token = await findActiveApiToken(header.replace(/^Bearer\s+/i, '').trim())
+    return token ? { user: token.user, tokenId: token.id, scopes: token.scopes } : null
+  }
+
+  const user = await getSessionUser()
+  return user ? { user, tokenId: null, scopes: null } : null
+}
+
+export function hasScope(auth: RequestAuth, scope: string): boolean {
+  return auth.scopes === null || tokenHasScope(auth.scopes, scope)
+}
+
+// Null when every tool may be used
+export function getAllowedTools(auth: RequestAuth, toolNames: string[]): string[] | null {
+  return auth.scopes === null ? null : toolNames.filter(name => hasScope(auth, `tools:${name}`))
+}
+
+export function isAdmin(user: Pick<User, 'role' | 'email'>): boolean {
+  return user.role === 'admin' || (!!user.email && ADMIN_EMAILS.includes(user.email))
+}
+
+export function adminRequired() {
+  return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+}
+
+export function forbidden(scope: string) {
+  return NextResponse.json({ error: `This API token does not have the '${scope}' scope` }, { status: 403 })
+}
+
+/**
+ * Creates an account with a bcrypt password hash. The first account registered takes over
+ * the conversations, files and settings of the anonymous default-session user, so a
+ * single-user install keeps its history when sign-in is turned on.
+ */
+export async function registerUser(input: { email: string; password: string; name?: string | null }) {
+  const email = normalizeEmail(input.email)
+  if (!EMAIL.test(email)) {
+    throw new RegistrationError('A valid email is required', 400)
+  }
+  if (input.password.length < MIN_PASSWORD_LENGTH) {
+    throw new RegistrationError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`, 400)
+  }
+  if (await prisma.user.findUnique({ where: { email } })) {
+    throw new RegistrationError('An account with this email already exists', 409)
+  }
+
+  const data = { email, name: input.name?.trim() || null, passwordHash: await hash(input.password, PASSWORD_ROUNDS) }
+
+  const [legacy, accounts] = await Promise.all([
+    prisma.user.findUnique({ where: { sessionId: LEGACY_SESSION_ID } }),
+    prisma.user.count({ where: { email: { not: null } } }),
+  ])
+  if (legacy && !legacy.email && accounts === 0) {
+    return prisma.user.update({ where: { id: legacy.id }, data })
+  }
+
+  return prisma.user.create({ data })
+}
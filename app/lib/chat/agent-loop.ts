@@ -0,0 +1,198 @@
+import { LLMAbortedError, LLMClient, LLMMessage, LLMRequest, LLMResponse, LLMToolCall, LLMToolDefinition } from '@/lib/llm';
+import { ToolContext } from '@/lib/tools/base-tool';
+import { ToolRegistry } from '@/lib/tools/tool-registry';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { ToolResult } from '@/lib/types';
+import { formatToolResultForModel } from './tool-results';
+
+const DEFAULT_MAX_ITERATIONS = parseInt(process.env.AGENT_MAX_ITERATIONS || '5', 10);
+
+export interface AgentToolRun {
+  toolCall: LLMToolCall;
+  result: ToolResult;
+  iteration: number;
+}
+
+export type AgentEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'tool_call'; toolCall: LLMToolCall; iteration: number }
+  | { type: 'tool_result'; toolCall: LLMToolCall; result: ToolResult; iteration: number };
+
+export interface AgentLoopOptions {
+  llm: LLMClient;
+  registry: ToolRegistry;
+  request: LLMRequest;
+  stream?: boolean;
+  // Passed to every tool so its side effects are attributed to the right user and conversation
+  toolContext?: ToolContext;
+  // Maximum number of rounds in which tools are executed before a final answer is forced
+  maxIterations?: number;
+  // Returning false signals the consumer is gone (e.g. the client disconnected)
+  onEvent?: (event: AgentEvent) => boolean | void;
+  // Aborting it cancels the model call and the running tool; the loop then returns what it has
+  signal?: AbortSignal;
+}
+
+export interface AgentLoopResult {
+  // Every piece of assistant text produced across iterations, exactly as emitted
+  content: string;
+  response?: LLMResponse;
+  toolRuns: AgentToolRun[];
+  iterations: number;
+  // LLM requests made across all iterations, including retries and fallbacks
+  attempts: number;
+  stopReason: 'completed' | 'max_iterations' | 'stopped' | 'cancelled';
+}
+
+async function executeToolCall(
+  registry: ToolRegistry,
+  toolCall: LLMToolCall,
+  context: ToolContext,
+  enabledTools: LLMToolDefinition[]
+): Promise<ToolResult> {
+  const tool = registry.getTool(toolCall.name);
+  if (!tool) {
+    return { success: false, error: `Tool '${toolCall.name}' not found` };
+  }
+  // Models occasionally call tools they were not offered
+  if (!enabledTools.some(definition => definition.name === toolCall.name)) {
+    return { success: false, error: `Tool '${toolCall.name}' is not enabled for this conversation` };
+  }
+  // Calls made by the model draw on the same per-tool budgets as direct /api/tools calls
+  if (context.userId) {
+    const budget = await checkRateLimit(`tool:${tool.name}`, `user:${context.userId}`);
+    if (!budget.allowed) {
+      return { success: false, error: `Rate limit for '${tool.name}' reached; try again in ${Math.ceil(budget.retryAfterMs / 1000)} seconds` };
+    }
+  }
+
+  try {
+    return await tool.execute(toolCall.arguments, context);
+  } catch (error) {
+    console.error(`Agent tool ${toolCall.name} failed:`, error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Runs the model with the registry's tools exposed, executes any tool calls it makes,
+ * feeds the results back and repeats until the model answers without calling a tool.
+ * After `maxIterations` tool rounds the model is asked for a final answer with tools disabled.
+ */
+export async function runAgentLoop(options: AgentLoopOptions): Promise<AgentLoopResult> {
+  const { llm, registry, request, stream = false, onEvent, signal } = options;
+  const toolContext: ToolContext = { ...options.toolContext, signal };
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  const tools = request.tools ?? registry.getToolDefinitions();
+  const messages: LLMMessage[] = [...request.messages];
+  const toolRuns: AgentToolRun[] = [];
+
+  let content = '';
+  let response: LLMResponse | undefined;
+  let attempts = 0;
+  let stopped = false;
+
+  const emit = (event: AgentEvent): boolean => {
+    if (stopped) return false;
+    if (onEvent && onEvent(event) === false) {
+      stopped = true;
+    }
+    return !stopped;
+  };
+
+  const emitText = (text: string): boolean => {
+    // Keep the text of separate iterations apart in the combined answer
+    const separator = content && !content.endsWith('\n') ? '\n\n' : '';
+    if (!emit({ type: 'delta', content: separator + text })) return false;
+    content += separator + text;
+    return true;
+  };
+
+  for (let iteration = 0; ; iteration++) {
+    const toolsExhausted = iteration >= maxIterations;
+    const iterationRequest: LLMRequest = {
+      ...request,
+      messages,
+      tools: tools.length > 0 ? tools : undefined,
+      toolChoice: toolsExhausted ? 'none' : request.toolChoice,
+      signal
+    };
+
+    const finish = (stopReason: AgentLoopResult['stopReason']): AgentLoopResult => ({
+      content,
+      response,
+      toolRuns,
+      iterations: iteration + 1,
+      attempts,
+      stopReason
+    });
+
+    let iterationText = '';
+    try {
+      if (stream) {
+        let first = true;
+        for await (const chunk of llm.stream(iterationRequest)) {
+          if (chunk.type === 'done') {
+            response = chunk.response;
+          } else if (first ? emitText(chunk.content) : emit(chunk)) {
+            if (!first) content += chunk.content;
+            iterationText += chunk.content;
+            first = false;
+          } else {
+            break;
+          }
+        }
+      } else {
+        response = await llm.chat(iterationRequest);
+        if (response.content && emitText(response.content)) {
+          iterationText = response.content;
+        }
+      }
+    } catch (error) {
+      // Whatever was streamed before the cancellation is kept as the partial answer
+      if (error instanceof LLMAbortedError) {
+        attempts += 1;
+        return finish('cancelled');
+      }
+      throw error;
+    }
+
+    attempts += response?.attempts ?? 1;
+
+    if (signal?.aborted) {
+      return finish('cancelled');
+    }
+    if (stopped) {
+      return finish('stopped');
+    }
+
+    const toolCalls = response?.toolCalls || [];
+    if (toolCalls.length === 0 || toolsExhausted) {
+      return finish(toolCalls.length > 0 ? 'max_iterations' : 'completed');
+    }
+
+    messages.push({ role: 'assistant', content: iterationText, toolCalls });
+
+    for (const toolCall of toolCalls) {
+      if (signal?.aborted || !emit({ type: 'tool_call', toolCall, iteration })) break;
+
+      const result = await executeToolCall(registry, toolCall, toolContext, tools);
+      toolRuns.push({ toolCall, result, iteration });
+      messages.push({
+        role: 'tool',
+        toolCallId: toolCall.id,
+        name: toolCall.name,
+        content: formatToolResultForModel(toolCall.name, result)
+      });
+
+      emit({ type: 'tool_result', toolCall, result, iteration });
+    }
+
+    if (signal?.aborted) {
+      return finish('cancelled');
+    }
+    if (stopped) {
+      return finish('stopped');
+    }
+  }
+}
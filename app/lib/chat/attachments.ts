@@ -0,0 +1,174 @@
+import { readFile } from 'fs/promises';
+import { File as StoredFile } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { LLMProviderName, getContextWindow, tokensToChars } from '@/lib/llm';
+import { MessageAttachment } from '@/lib/types';
+import { scopeFilter } from '@/lib/workspaces';
+
+export const MAX_ATTACHMENTS = 10;
+
+// Attachments may take up this share of the model's context window, and never more than the cap
+const CONTEXT_SHARE = 0.4;
+const MAX_ATTACHMENT_TOKENS = parseInt(process.env.ATTACHMENT_MAX_TOKENS || '12000', 10);
+// Larger text files are not read from disk when the upload stored no extracted text
+const MAX_TEXT_FILE_BYTES = 2 * 1024 * 1024;
+const TEXT_MIME_TYPE = /^text\/|^application\/(json|xml|javascript|x-yaml|yaml|csv)$/;
+
+export interface AttachmentContext {
+  // Appended to the user message sent to the model; empty without attachments
+  content: string;
+  attachments: MessageAttachment[];
+}
+
+export function parseFileIds(value: unknown): { data: string[]; error?: undefined } | { data?: undefined; error: string } {
+  if (value === undefined || value === null) {
+    return { data: [] };
+  }
+  if (!Array.isArray(value) || value.some(id => typeof id !== 'string' || !id)) {
+    return { error: 'fileIds must be an array of file ids' };
+  }
+  if (value.length > MAX_ATTACHMENTS) {
+    return { error: `At most ${MAX_ATTACHMENTS} files can be attached to a message` };
+  }
+  return { data: Array.from(new Set(value as string[])) };
+}
+
+// File ids recorded on a stored message; attachments from before uploads were wired have none
+export function getAttachmentFileIds(metadata: unknown): string[] {
+  const attachments = ((metadata as Record<string, any> | null) || {}).attachments;
+  if (!Array.isArray(attachments)) return [];
+  return attachments
+    .map((attachment: any) => attachment?.fileId)
+    .filter((fileId: unknown): fileId is string => typeof fileId === 'string');
+}
+
+/**
+ * Looks up the user's files, or the workspace's when `workspaceId` is set, in the order given.
+ * Other ids come back in `missing`; deleted files are still returned so they can be reported
+ * as unavailable.
+ */
+export async function loadAttachmentFiles(
+  userId: string,
+  fileIds: string[],
+  workspaceId: string | null = null
+): Promise<{ files: StoredFile[]; missing: string[] }> {
+  if (fileIds.length === 0) {
+    return { files: [], missing: [] };
+  }
+
+  const found = await prisma.file.findMany({ where: { id: { in: fileIds }, ...scopeFilter(userId, workspaceId) } });
+  return {
+    files: fileIds
+      .map(id => found.find(file => file.id === id))
+      .filter((file): file is StoredFile => file !== undefined),
+    missing: fileIds.filter(id => !found.some(file => file.id === id))
+  };
+}
+
+export function getAttachmentTokenBudget(model: string): number {
+  return Math.min(MAX_ATTACHMENT_TOKENS, Math.floor(getContextWindow(model) * CONTEXT_SHARE));
+}
+
+async function extractText(file: StoredFile): Promise<{ text: string; kind: 'text' | 'analysis' } | null> {
+  const metadata = (file.metadata as Record<string, any> | null) || {};
+  if (typeof metadata.processedContent === 'string' && metadata.processedContent) {
+    return { text: metadata.processedContent, kind: 'text' };
+  }
+
+  if (TEXT_MIME_TYPE.test(file.mimeType) && file.size <= MAX_TEXT_FILE_BYTES) {
+    try {
+      return { text: (await readFile(file.path)).toString('utf-8'), kind: 'text' };
+    } catch (error) {
+      console.error(`Failed to read attachment ${file.id}:`, error);
+    }
+  }
+
+  if (typeof metadata.analysis === 'string' && metadata.analysis) {
+    return { text: metadata.analysis, kind: 'analysis' };
+  }
+  return null;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * Renders the attachments for the prompt, splitting `maxTokens` evenly between the files
+ * that have text; whatever a short file leaves unused goes to the longer ones. Files without
+ * text are listed by name, with a pointer to the file tool when it is enabled.
+ */
+export async function buildAttachmentContext(
+  files: StoredFile[],
+  options: { maxTokens: number; provider: LLMProviderName; fileToolEnabled: boolean }
+): Promise<AttachmentContext> {
+  if (files.length === 0) {
+    return { content: '', attachments: [] };
+  }
+
+  const extracted = await Promise.all(files.map(file => (file.isDeleted ? null : extractText(file))));
+
+  // Shortest first, so each file's share includes what the shorter ones did not need
+  const allowance: Record<string, number> = {};
+  let remaining = tokensToChars(options.maxTokens, options.provider);
+  const withText = files
+    .map((file, index) => ({ file, length: extracted[index]?.text.length || 0 }))
+    .filter(entry => entry.length > 0)
+    .sort((a, b) => a.length - b.length);
+  withText.forEach((entry, index) => {
+    const share = Math.floor(remaining / (withText.length - index));
+    allowance[entry.file.id] = Math.min(entry.length, share);
+    remaining -= allowance[entry.file.id];
+  });
+
+  const attachments: MessageAttachment[] = [];
+  const blocks = files.map((file, index) => {
+    const source = extracted[index];
+    const text = source?.text || '';
+    const includedChars = allowance[file.id] || 0;
+    const info: MessageAttachment = {
+      fileId: file.id,
+      name: file.originalName,
+      type: file.mimeType,
+      size: file.size,
+      included: 'reference',
+      includedChars,
+      totalChars: text.length
+    };
+    const attributes = `name="${escapeAttribute(file.originalName)}" type="${escapeAttribute(file.mimeType)}"`;
+
+    if (file.isDeleted) {
+      attachments.push({ ...info, included: 'unavailable' });
+      return `<attachment ${attributes}>This file has been deleted.</attachment>`;
+    }
+
+    if (!source || includedChars === 0) {
+      attachments.push(info);
+      const hint = options.fileToolEnabled
+        ? `No text was extracted from this file. To read it, call the file_processing tool with file_path "${escapeAttribute(file.filename)}".`
+        : 'No text was extracted from this file, so its contents are not available.';
+      return `<attachment ${attributes}>${hint}</attachment>`;
+    }
+
+    const truncated = includedChars < text.length;
+    attachments.push({ ...info, included: source.kind === 'analysis' ? 'analysis' : truncated ? 'truncated' : 'full' });
+    const notes = [
+      source.kind === 'analysis' ? 'Summary of the file, not its contents.' : '',
+      truncated ? `Truncated: the first ${includedChars} of ${text.length} characters.` : ''
+    ].filter(Boolean).join(' ');
+
+    return `<attachment ${attributes}>\n${notes ? `[${notes}]\n` : ''}${text.slice(0, includedChars)}\n</attachment>`;
+  });
+
+  return {
+    content: `\n\nAttached files:\n${blocks.join('\n')}`,
+    attachments
+  };
+}
+
+// Earlier turns only mention their attachments; their contents were sent with that turn
+export function formatAttachmentNote(metadata: unknown): string {
+  const attachments = ((metadata as Record<string, any> | null) || {}).attachments;
+  if (!Array.isArray(attachments) || attachments.length === 0) return '';
+  return `\n\n[Attached files: ${attachments.map((attachment: any) => attachment?.name || 'file').join(', ')}]`;
+}
@@ -0,0 +1,208 @@
+import { prisma } from '@/lib/db';
+import {
+  LLMClient,
+  LLMMessage,
+  LLMProviderName,
+  LLMToolDefinition,
+  countMessageTokens,
+  countTokens,
+  countToolTokens,
+  getContextWindow
+} from '@/lib/llm';
+import { buildLLMHistory } from './history';
+
+// Room kept free for the rolling summary and for estimation error
+const SUMMARY_TOKEN_BUDGET = parseInt(process.env.CONTEXT_SUMMARY_TOKENS || '800', 10);
+const SAFETY_MARGIN = 0.05;
+
+interface StoredMessage {
+  id: string;
+  role: string;
+  content: string;
+  metadata: unknown;
+  createdAt: Date;
+}
+
+export interface HistorySummary {
+  content: string;
+  // Messages created at or before this instant are covered by the summary
+  coveredUntil: string;
+  // Last message folded in; the summary only applies to branches that contain it
+  coveredMessageId?: string;
+  updatedAt: string;
+}
+
+export interface ContextBudget {
+  contextWindow: number;
+  reserved: {
+    system: number;
+    tools: number;
+    answer: number;
+    summary: number;
+  };
+  available: number;
+}
+
+export interface PreparedContext {
+  messages: LLMMessage[];
+  budget: ContextBudget;
+  summary?: HistorySummary;
+  summarizedMessages: number;
+}
+
+interface PrepareContextOptions {
+  // `messages` is the active branch the new turn continues
+  conversation: { id: string; metadata: unknown; messages: StoredMessage[] };
+  // Messages for the current turn that are not stored yet; always sent and never summarized
+  incoming: LLMMessage[];
+  llm: LLMClient;
+  systemPrompt: string;
+  tools?: LLMToolDefinition[];
+  maxTokens?: number;
+}
+
+export function computeContextBudget(
+  model: string,
+  provider: LLMProviderName,
+  options: { systemPrompt: string; tools?: LLMToolDefinition[]; maxTokens?: number }
+): ContextBudget {
+  const contextWindow = getContextWindow(model);
+  const reserved = {
+    system: countTokens(options.systemPrompt, provider),
+    tools: countToolTokens(options.tools, provider),
+    answer: options.maxTokens || 2000,
+    summary: SUMMARY_TOKEN_BUDGET
+  };
+  const used = reserved.system + reserved.tools + reserved.answer + reserved.summary;
+
+  return {
+    contextWindow,
+    reserved,
+    available: Math.max(0, Math.floor(contextWindow * (1 - SAFETY_MARGIN)) - used)
+  };
+}
+
+// A turn starts at a user message and runs until the next one, so tool rounds stay intact
+function groupIntoTurns(messages: StoredMessage[]): StoredMessage[][] {
+  return messages.reduce<StoredMessage[][]>((turns, msg) => {
+    if (msg.role === 'user' || turns.length === 0) {
+      turns.push([msg]);
+    } else {
+      turns[turns.length - 1].push(msg);
+    }
+    return turns;
+  }, []);
+}
+
+function formatTranscript(messages: LLMMessage[]): string {
+  return messages
+    .map(msg => {
+      if (msg.role === 'tool') return `Tool result (${msg.name}): ${msg.content}`;
+      if (msg.toolCalls?.length) {
+        return `Assistant called: ${msg.toolCalls.map(call => `${call.name}(${JSON.stringify(call.arguments)})`).join(', ')}`;
+      }
+      return `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`;
+    })
+    .join('\n\n');
+}
+
+async function summarizeTurns(llm: LLMClient, previous: string | undefined, messages: LLMMessage[]): Promise<string> {
+  const response = await llm.withUsage({ purpose: 'summary' }).chat({
+    messages: [
+      {
+        role: 'system',
+        content: 'You maintain a running summary of a conversation between a user and an AI assistant. Preserve facts, decisions, user preferences, open questions and key tool findings (with source URLs where relevant). Write concise prose, at most 300 words.'
+      },
+      {
+        role: 'user',
+        content: `${previous ? `Current summary:\n${previous}\n\n` : ''}New conversation turns to fold into the summary:\n\n${formatTranscript(messages)}\n\nReturn the updated summary only.`
+      }
+    ],
+    temperature: 0.2,
+    maxTokens: SUMMARY_TOKEN_BUDGET
+  });
+
+  return response.content.trim();
+}
+
+/**
+ * Builds the history sent with a new turn so that it fits the model's context window.
+ * The newest turns are kept verbatim; older turns that no longer fit are folded into a
+ * rolling summary stored in `Conversation.metadata.historySummary` instead of being dropped.
+ */
+export async function prepareConversationContext(options: PrepareContextOptions): Promise<PreparedContext> {
+  const { conversation, incoming, llm, systemPrompt, tools, maxTokens } = options;
+  const target = llm.getPrimaryTarget();
+  const provider = target?.provider || 'openai';
+  const budget = computeContextBudget(target?.model || '', provider, { systemPrompt, tools, maxTokens });
+
+  const metadata = (conversation.metadata as Record<string, any> | null) || {};
+  let summary = metadata.historySummary as HistorySummary | undefined;
+
+  // A summary written on another branch (or before branches existed) says nothing about this one
+  const coveredIndex = summary ? conversation.messages.findIndex(msg => msg.id === summary!.coveredMessageId) : -1;
+  if (coveredIndex < 0) {
+    summary = undefined;
+  }
+  const pending = conversation.messages.slice(coveredIndex + 1);
+
+  const turns = groupIntoTurns(pending).map(turn => ({
+    stored: turn,
+    messages: buildLLMHistory(turn)
+  }));
+
+  // Keep the newest turns that fit; everything older overflows into the summary
+  let used = countMessageTokens(incoming, provider);
+  let firstKept = turns.length;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const tokens = countMessageTokens(turns[i].messages, provider);
+    if (used + tokens > budget.available) break;
+    used += tokens;
+    firstKept = i;
+  }
+
+  const overflow = turns.slice(0, firstKept);
+  const kept = turns.slice(firstKept);
+  let summarizedMessages = 0;
+
+  if (overflow.length > 0) {
+    const overflowMessages = overflow.flatMap(turn => turn.messages);
+    const lastOverflow = overflow[overflow.length - 1].stored;
+    const lastCovered = lastOverflow[lastOverflow.length - 1];
+
+    try {
+      const content = await summarizeTurns(llm, summary?.content, overflowMessages);
+      summary = {
+        content,
+        coveredUntil: lastCovered.createdAt.toISOString(),
+        coveredMessageId: lastCovered.id,
+        updatedAt: new Date().toISOString()
+      };
+      summarizedMessages = overflow.reduce((count, turn) => count + turn.stored.length, 0);
+
+      // Merged into the stored metadata in one statement, so keys written since the turn started
+      // (the overview summary, title, model or persona) are kept
+      await prisma.$executeRaw`
+        UPDATE conversations
+        SET metadata = (CASE WHEN jsonb_typeof(metadata) = 'object' THEN metadata ELSE '{}'::jsonb END)
+          || jsonb_build_object('historySummary', ${JSON.stringify(summary)}::jsonb)
+        WHERE id = ${conversation.id}
+      `;
+    } catch (error) {
+      // Without a fresh summary the overflowing turns are left out rather than failing the request
+      console.error('History summarization failed:', error);
+    }
+  }
+
+  const messages: LLMMessage[] = [];
+  if (summary) {
+    messages.push({
+      role: 'system',
+      content: `Summary of the earlier conversation:\n${summary.content}`
+    });
+  }
+  kept.forEach(turn => messages.push(...turn.messages));
+  messages.push(...incoming);
+
+  return { messages, budget, summary, summarizedMessages };
+}
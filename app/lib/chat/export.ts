@@ -0,0 +1,361 @@
+import { z } from 'zod';
+import { Conversation, Message } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { getActivePath } from './tree';
+
+export const CONVERSATION_EXPORT_FORMAT = 'avilink.conversation';
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+const MAX_IMPORT_MESSAGES = 5000;
+// Markdown and HTML are for reading; the JSON export always keeps tool results whole
+const TOOL_RESULT_PREVIEW_CHARS = 2000;
+// Imports write every message in one transaction
+const IMPORT_TIMEOUT_MS = 60000;
+
+const timestampSchema = z.string().datetime({ offset: true });
+const metadataSchema = z.record(z.any()).nullable();
+
+const exportedMessageSchema = z.object({
+  id: z.string().min(1),
+  parentId: z.string().min(1).nullable(),
+  role: z.enum(['user', 'assistant', 'system', 'tool']),
+  content: z.string(),
+  metadata: metadataSchema,
+  createdAt: timestampSchema,
+  updatedAt: timestampSchema
+});
+
+// Version 1 of the lossless export: every branch, tool message and metadata field
+const conversationExportV1Schema = z.object({
+  format: z.literal(CONVERSATION_EXPORT_FORMAT),
+  version: z.literal(1),
+  exportedAt: timestampSchema,
+  conversation: z.object({
+    title: z.string().nullable(),
+    isArchived: z.boolean(),
+    metadata: metadataSchema,
+    activeLeafId: z.string().nullable(),
+    createdAt: timestampSchema,
+    updatedAt: timestampSchema
+  }),
+  messages: z.array(exportedMessageSchema).max(MAX_IMPORT_MESSAGES)
+});
+
+export type ConversationExport = z.infer<typeof conversationExportV1Schema>;
+type ExportedMessage = ConversationExport['messages'][number];
+
+export type ExportFormat = 'json' | 'markdown' | 'html';
+export const EXPORT_FORMATS: ExportFormat[] = ['json', 'markdown', 'html'];
+
+export function buildConversationExport(conversation: Conversation, messages: Message[]): ConversationExport {
+  return {
+    format: CONVERSATION_EXPORT_FORMAT,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: {
+      title: conversation.title,
+      isArchived: conversation.isArchived,
+      metadata: (conversation.metadata as Record<string, any> | null) || null,
+      activeLeafId: conversation.activeLeafId,
+      createdAt: conversation.createdAt.toISOString(),
+      updatedAt: conversation.updatedAt.toISOString()
+    },
+    messages: messages.map(msg => ({
+      id: msg.id,
+      parentId: msg.parentId,
+      role: msg.role as ExportedMessage['role'],
+      content: msg.content,
+      metadata: (msg.metadata as Record<string, any> | null) || null,
+      createdAt: msg.createdAt.toISOString(),
+      updatedAt: msg.updatedAt.toISOString()
+    }))
+  };
+}
+
+export function exportFilename(title: string | null, format: ExportFormat): string {
+  const slug = (title || '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  const extension = format === 'markdown' ? 'md' : format;
+  return `${slug || 'conversation'}.${extension}`;
+}
+
+// Messages of the active branch, with the parsed contents of the tool messages among them
+function readableMessages(data: ConversationExport) {
+  const path = getActivePath(
+    data.messages.map(msg => ({ ...msg, createdAt: new Date(msg.createdAt) })),
+    data.conversation.activeLeafId
+  );
+
+  return path.map(msg => {
+    let tool: { name: string; parameters: string; result: string } | undefined;
+    if (msg.role === 'tool') {
+      let parsed: any = {};
+      try {
+        parsed = JSON.parse(msg.content);
+      } catch {
+        parsed = { result: msg.content };
+      }
+      const result = typeof parsed.result === 'string' ? parsed.result : JSON.stringify(parsed.result, null, 2) || '';
+      tool = {
+        name: parsed.tool || msg.metadata?.toolName || 'tool',
+        parameters: JSON.stringify(parsed.parameters || {}, null, 2),
+        result: result.length > TOOL_RESULT_PREVIEW_CHARS
+          ? `${result.slice(0, TOOL_RESULT_PREVIEW_CHARS)}\n… (truncated, ${result.length} characters)`
+          : result
+      };
+    }
+
+    const attachments: Array<{ name?: string; size?: number; type?: string }> = Array.isArray(msg.metadata?.attachments)
+      ? msg.metadata!.attachments
+      : [];
+
+    return { ...msg, tool, attachments };
+  });
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  user: 'User',
+  assistant: 'Assistant',
+  system: 'System',
+  tool: 'Tool'
+};
+
+// A code fence longer than any backtick run inside the text
+function fence(text: string, language = ''): string {
+  const longest = (text.match(/`+/g) || []).reduce((max, run) => Math.max(max, run.length), 0);
+  const marker = '`'.repeat(Math.max(3, longest + 1));
+  return `${marker}${language}\n${text}\n${marker}`;
+}
+
+/**
+ * Markdown of the active branch, for pasting into reports. Tool calls are included with their
+ * results shortened; alternative branches are only part of the JSON export.
+ */
+export function renderMarkdown(data: ConversationExport): string {
+  const lines = [`# ${data.conversation.title || 'Conversation'}`, '', `_Exported ${data.exportedAt}_`, ''];
+
+  readableMessages(data).forEach(msg => {
+    const time = msg.createdAt.toISOString();
+    if (msg.tool) {
+      lines.push(`### Tool: ${msg.tool.name} · ${time}`, '', 'Parameters:', '', fence(msg.tool.parameters, 'json'), '');
+      lines.push('Result:', '', fence(msg.tool.result), '');
+      return;
+    }
+
+    lines.push(`## ${ROLE_LABELS[msg.role]} · ${time}`, '', msg.content, '');
+    if (msg.attachments.length > 0) {
+      lines.push(`Attachments: ${msg.attachments.map(file => file.name || 'file').join(', ')}`, '');
+    }
+  });
+
+  return lines.join('\n');
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const HTML_STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111827; line-height: 1.6; }
+header { border-bottom: 1px solid #e5e7eb; margin-bottom: 1.5rem; }
+.meta { color: #6b7280; font-size: 0.85rem; }
+.message { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 0.5rem; }
+.user { background: #eff6ff; }
+.assistant { background: #f9fafb; }
+.system { background: #fefce8; }
+.role { font-weight: 600; margin-right: 0.5rem; }
+.content { white-space: pre-wrap; word-wrap: break-word; }
+details { margin: 0.5rem 0; padding: 0.5rem 1rem; border: 1px solid #e5e7eb; border-radius: 0.5rem; }
+pre { white-space: pre-wrap; word-wrap: break-word; background: #f3f4f6; padding: 0.5rem; border-radius: 0.25rem; font-size: 0.85rem; }
+`;
+
+/**
+ * A standalone HTML page of the active branch: inline styles, no scripts and no external
+ * resources. Message text is escaped and shown as written.
+ */
+export function renderHTML(data: ConversationExport): string {
+  const title = escapeHTML(data.conversation.title || 'Conversation');
+
+  const body = readableMessages(data).map(msg => {
+    const time = escapeHTML(msg.createdAt.toISOString());
+    if (msg.tool) {
+      return [
+        '<details>',
+        `<summary><span class="role">Tool: ${escapeHTML(msg.tool.name)}</span><span class="meta">${time}</span></summary>`,
+        `<pre>${escapeHTML(msg.tool.parameters)}</pre>`,
+        `<pre>${escapeHTML(msg.tool.result)}</pre>`,
+        '</details>'
+      ].join('\n');
+    }
+
+    const attachments = msg.attachments.length > 0
+      ? `<div class="meta">Attachments: ${msg.attachments.map(file => escapeHTML(file.name || 'file')).join(', ')}</div>`
+      : '';
+    return [
+      `<section class="message ${msg.role}">`,
+      `<div><span class="role">${ROLE_LABELS[msg.role]}</span><span class="meta">${time}</span></div>`,
+      `<div class="content">${escapeHTML(msg.content)}</div>`,
+      attachments,
+      '</section>'
+    ].filter(Boolean).join('\n');
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${title}</title>`,
+    `<style>${HTML_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    `<header><h1>${title}</h1><p class="meta">Exported ${escapeHTML(data.exportedAt)}</p></header>`,
+    ...body,
+    '</body>',
+    '</html>'
+  ].join('\n');
+}
+
+// Orders messages so every parent comes before its children; null when the parents form a cycle
+function orderParentsFirst(messages: ExportedMessage[]): ExportedMessage[] | null {
+  const ordered: ExportedMessage[] = [];
+  const placed: Record<string, boolean> = {};
+  let remaining = messages;
+
+  while (remaining.length > 0) {
+    const ready = remaining.filter(msg => !msg.parentId || placed[msg.parentId]);
+    if (ready.length === 0) return null;
+    ready.forEach(msg => {
+      placed[msg.id] = true;
+      ordered.push(msg);
+    });
+    remaining = remaining.filter(msg => !placed[msg.id]);
+  }
+
+  return ordered;
+}
+
+/**
+ * Validates an uploaded export against the schema for its version and checks that the
+ * messages form a tree. On success the messages come back ordered parents first.
+ */
+export function parseConversationImport(
+  body: any
+): { data: ConversationExport; error?: undefined } | { data?: undefined; error: string } {
+  if (!body || typeof body !== 'object' || body.format !== CONVERSATION_EXPORT_FORMAT) {
+    return { error: `Expected a conversation export with format '${CONVERSATION_EXPORT_FORMAT}'` };
+  }
+  if (body.version !== CONVERSATION_EXPORT_VERSION) {
+    return { error: `Unsupported export version: ${JSON.stringify(body.version)} (supported: ${CONVERSATION_EXPORT_VERSION})` };
+  }
+
+  const validation = conversationExportV1Schema.safeParse(body);
+  if (!validation.success) {
+    const issues = validation.error.issues
+      .slice(0, 10)
+      .map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+    return { error: `Invalid export: ${issues.join('; ')}` };
+  }
+
+  const data = validation.data;
+  const ids = new Set(data.messages.map(msg => msg.id));
+  if (ids.size !== data.messages.length) {
+    return { error: 'Invalid export: message ids must be unique' };
+  }
+  const orphan = data.messages.find(msg => msg.parentId && !ids.has(msg.parentId));
+  if (orphan) {
+    return { error: `Invalid export: message ${orphan.id} refers to a missing parent` };
+  }
+
+  const ordered = orderParentsFirst(data.messages);
+  if (!ordered) {
+    return { error: 'Invalid export: message parents form a cycle' };
+  }
+
+  const leafId = data.conversation.activeLeafId;
+  const leaf = leafId ? data.messages.find(msg => msg.id === leafId) : undefined;
+  if (leafId && (!leaf || leaf.role === 'tool')) {
+    return { error: 'Invalid export: activeLeafId must refer to a non-tool message' };
+  }
+
+  return { data: { ...data, messages: ordered } };
+}
+
+/**
+ * Recreates an export as a new conversation of `userId`, in `workspaceId` when set, keeping
+ * the branch structure and timestamps. Messages get new ids, and references to them in
+ * metadata are rewritten; persona and LLM configuration references that don't belong to the
+ * user (or the workspace) are dropped.
+ */
+export async function importConversation(userId: string, data: ConversationExport, workspaceId: string | null = null) {
+  const metadata: Record<string, any> = { ...(data.conversation.metadata || {}) };
+
+  if (metadata.personaId && !(await prisma.persona.findFirst({ where: { id: metadata.personaId, userId } }))) {
+    delete metadata.personaId;
+  }
+  const configOwner = workspaceId ? { workspaceId } : { userId };
+  if (metadata.llm?.configId && !(await prisma.lLMConfiguration.findFirst({ where: { id: metadata.llm.configId, ...configOwner } }))) {
+    const { configId, ...selection } = metadata.llm;
+    metadata.llm = selection;
+  }
+
+  // Exports without a selected branch continue from the newest message
+  const latest = data.messages
+    .filter(msg => msg.role !== 'tool')
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+  const leafId = data.conversation.activeLeafId || latest?.id || null;
+
+  return prisma.$transaction(async (tx) => {
+    const conversation = await tx.conversation.create({
+      data: {
+        userId,
+        workspaceId,
+        title: data.conversation.title,
+        isArchived: data.conversation.isArchived,
+        createdAt: new Date(data.conversation.createdAt)
+      }
+    });
+
+    const idMap: Record<string, string> = {};
+    for (const msg of data.messages) {
+      const messageMetadata = msg.metadata ? { ...msg.metadata } : null;
+      if (messageMetadata?.assistantMessageId) {
+        messageMetadata.assistantMessageId = idMap[messageMetadata.assistantMessageId] || null;
+      }
+
+      const created = await tx.message.create({
+        data: {
+          conversationId: conversation.id,
+          parentId: msg.parentId ? idMap[msg.parentId] : null,
+          role: msg.role,
+          content: msg.content,
+          metadata: messageMetadata || undefined,
+          createdAt: new Date(msg.createdAt),
+          updatedAt: new Date(msg.updatedAt)
+        }
+      });
+      idMap[msg.id] = created.id;
+    }
+
+    if (metadata.historySummary?.coveredMessageId) {
+      metadata.historySummary = {
+        ...metadata.historySummary,
+        coveredMessageId: idMap[metadata.historySummary.coveredMessageId]
+      };
+    }
+
+    return tx.conversation.update({
+      where: { id: conversation.id },
+      data: {
+        metadata,
+        activeLeafId: leafId ? idMap[leafId] : null,
+        updatedAt: new Date(data.conversation.updatedAt)
+      }
+    });
+  }, { timeout: IMPORT_TIMEOUT_MS });
+}
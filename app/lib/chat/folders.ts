@@ -0,0 +1,77 @@
+import { Folder } from '@prisma/client';
+import { prisma } from '@/lib/db';
+
+export const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const MAX_FOLDER_NAME_LENGTH = 100;
+const COLOR = /^#[0-9a-fA-F]{6}$/;
+
+export interface FolderInput {
+  name?: string;
+  color?: string | null;
+  position?: number;
+}
+
+export function parseFolderInput(
+  body: any,
+  partial = false
+): { data: FolderInput; error?: undefined } | { data?: undefined; error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Request body must be an object' };
+  }
+
+  const data: FolderInput = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) return { error: 'Name is required' };
+    data.name = body.name.trim().slice(0, MAX_FOLDER_NAME_LENGTH);
+  }
+  if (body.color !== undefined) {
+    if (body.color !== null && (typeof body.color !== 'string' || !COLOR.test(body.color))) {
+      return { error: 'Color must be a hex color like #3b82f6, or null' };
+    }
+    data.color = body.color;
+  }
+  if (body.position !== undefined) {
+    if (!Number.isInteger(body.position)) return { error: 'Position must be an integer' };
+    data.position = body.position;
+  }
+
+  return { data };
+}
+
+// Tags are free-form; surrounding whitespace and case-insensitive duplicates are dropped
+export function parseTags(value: unknown): { data: string[]; error?: undefined } | { data?: undefined; error: string } {
+  if (!Array.isArray(value) || value.some(tag => typeof tag !== 'string')) {
+    return { error: 'Tags must be an array of strings' };
+  }
+
+  const tags: string[] = [];
+  (value as string[]).forEach(tag => {
+    const trimmed = tag.trim().slice(0, MAX_TAG_LENGTH);
+    if (trimmed && !tags.some(existing => existing.toLowerCase() === trimmed.toLowerCase())) {
+      tags.push(trimmed);
+    }
+  });
+
+  if (tags.length > MAX_TAGS) {
+    return { error: `A conversation can have at most ${MAX_TAGS} tags` };
+  }
+  return { data: tags };
+}
+
+export async function findUserFolder(userId: string, id: string) {
+  return prisma.folder.findFirst({ where: { id, userId } });
+}
+
+export function serializeFolder(folder: Folder & { _count?: { conversations: number } }) {
+  return {
+    id: folder.id,
+    name: folder.name,
+    color: folder.color,
+    position: folder.position,
+    conversationCount: folder._count?.conversations,
+    createdAt: folder.createdAt,
+    updatedAt: folder.updatedAt
+  };
+}
@@ -0,0 +1,88 @@
+import { LLMMessage, LLMToolCall } from '@/lib/llm';
+import { formatAttachmentNote } from './attachments';
+import { formatToolResultForModel } from './tool-results';
+
+interface StoredMessage {
+  id: string;
+  role: string;
+  content: string;
+  metadata: unknown;
+}
+
+interface ToolMessageMetadata {
+  toolName: string;
+  toolCallId: string;
+  assistantMessageId: string;
+  iteration: number;
+}
+
+function getMetadata(message: StoredMessage): Record<string, any> {
+  return (message.metadata as Record<string, any> | null) || {};
+}
+
+function parseToolContent(content: string): { parameters: Record<string, any>; result: unknown } {
+  try {
+    const parsed = JSON.parse(content);
+    return { parameters: parsed.parameters || {}, result: parsed.result };
+  } catch {
+    return { parameters: {}, result: content };
+  }
+}
+
+/**
+ * Rebuilds the provider-facing history from stored messages. Tool messages written by the
+ * agent loop are linked to their assistant turn and replayed as tool-call rounds ahead of
+ * that turn's final answer; standalone tool logs (from /api/tools) have no matching tool
+ * call, so they are not replayed to the model.
+ */
+export function buildLLMHistory(messages: StoredMessage[]): LLMMessage[] {
+  const toolMessagesByAssistant: Record<string, StoredMessage[]> = {};
+  messages.forEach(msg => {
+    const assistantMessageId = getMetadata(msg).assistantMessageId;
+    if (msg.role === 'tool' && assistantMessageId) {
+      (toolMessagesByAssistant[assistantMessageId] = toolMessagesByAssistant[assistantMessageId] || []).push(msg);
+    }
+  });
+
+  const history: LLMMessage[] = [];
+
+  messages.forEach(msg => {
+    if (msg.role === 'tool') return;
+
+    if (msg.role === 'assistant') {
+      const toolMessages = toolMessagesByAssistant[msg.id] || [];
+      const iterations = Array.from(new Set(toolMessages.map(tool => (getMetadata(tool) as ToolMessageMetadata).iteration)))
+        .sort((a, b) => a - b);
+
+      iterations.forEach(iteration => {
+        const round = toolMessages.filter(tool => (getMetadata(tool) as ToolMessageMetadata).iteration === iteration);
+        const toolCalls: LLMToolCall[] = round.map(tool => {
+          const metadata = getMetadata(tool) as ToolMessageMetadata;
+          return {
+            id: metadata.toolCallId,
+            name: metadata.toolName,
+            arguments: parseToolContent(tool.content).parameters
+          };
+        });
+
+        history.push({ role: 'assistant', content: '', toolCalls });
+        round.forEach(tool => {
+          const metadata = getMetadata(tool) as ToolMessageMetadata;
+          history.push({
+            role: 'tool',
+            toolCallId: metadata.toolCallId,
+            name: metadata.toolName,
+            content: formatToolResultForModel(metadata.toolName, parseToolContent(tool.content).result)
+          });
+        });
+      });
+    }
+
+    history.push({
+      role: msg.role as LLMMessage['role'],
+      content: msg.role === 'user' ? msg.content + formatAttachmentNote(msg.metadata) : msg.content
+    });
+  });
+
+  return history;
+}
@@ -0,0 +1,151 @@
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import {
+  LLMClient,
+  LLMProviderName,
+  LLMUsageContext,
+  generateStructured,
+  getDefaultProvider,
+  isLLMProvider
+} from '@/lib/llm';
+import { ResolvedLLMOptions } from '@/lib/llm/config';
+import { getActivePath } from './tree';
+
+// A fresh title and summary after the first exchange, then every this many messages
+const REFRESH_INTERVAL = parseInt(process.env.CONVERSATION_SUMMARY_INTERVAL || '10', 10);
+const MAX_TITLE_LENGTH = 60;
+// Newest part of the conversation the model reads, and how much of each message
+const TRANSCRIPT_CHARS = 12000;
+const MESSAGE_CHARS = 1500;
+
+// Cheaper models of each provider; providers without an entry keep the conversation's model
+const SUMMARY_MODELS: Partial<Record<LLMProviderName, string>> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  gemini: 'gemini-1.5-flash',
+  deepseek: 'deepseek-chat'
+};
+
+const overviewSchema = z.object({
+  title: z.string().min(1).describe('At most 6 words, no quotes or trailing punctuation'),
+  summary: z.string().min(1).describe('One paragraph of 2-4 sentences')
+});
+
+/**
+ * Stored in `Conversation.metadata.summary` for people scanning their conversations;
+ * `historySummary` is the separate, model-facing summary of turns that left the context.
+ */
+export interface ConversationSummary {
+  content: string;
+  // Messages on the active branch when it was written
+  messageCount: number;
+  generatedAt: string;
+}
+
+export interface ConversationOverview {
+  title: string | null;
+  summary: string;
+}
+
+// LLM_SUMMARY_PROVIDER / LLM_SUMMARY_MODEL win; otherwise the conversation's provider with its cheap model
+function createSummaryClient(llmOptions: ResolvedLLMOptions, usage: LLMUsageContext): LLMClient {
+  const provider = process.env.LLM_SUMMARY_PROVIDER;
+  if (isLLMProvider(provider)) {
+    return new LLMClient({ provider, model: process.env.LLM_SUMMARY_MODEL, usage });
+  }
+
+  const primary = llmOptions.provider || getDefaultProvider();
+  return new LLMClient({
+    ...llmOptions,
+    model: process.env.LLM_SUMMARY_MODEL || (primary && SUMMARY_MODELS[primary]) || llmOptions.model,
+    usage
+  });
+}
+
+function formatTranscript(messages: Array<{ role: string; content: string }>): string {
+  const transcript = messages
+    .map(msg => {
+      const content = msg.content.length > MESSAGE_CHARS ? `${msg.content.slice(0, MESSAGE_CHARS)}…` : msg.content;
+      return `${msg.role === 'user' ? 'User' : 'Assistant'}: ${content}`;
+    })
+    .join('\n\n');
+  return transcript.length > TRANSCRIPT_CHARS ? `…${transcript.slice(-TRANSCRIPT_CHARS)}` : transcript;
+}
+
+function cleanTitle(title: string): string {
+  const cleaned = title.trim().replace(/^["'“”]+|["'“”]+$/g, '').replace(/[.!?:;,]+$/, '').trim();
+  return cleaned.length > MAX_TITLE_LENGTH ? `${cleaned.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : cleaned;
+}
+
+// Titles set through PATCH /api/conversations/:id are the user's and are never replaced
+export function isUserTitle(metadata: unknown): boolean {
+  return ((metadata as Record<string, any> | null) || {}).titleSource === 'user';
+}
+
+/**
+ * Writes a generated title and one-paragraph summary for the conversation's active branch,
+ * once the first exchange is complete and again every REFRESH_INTERVAL messages. Returns
+ * what was stored, or null when nothing was due or generation failed; it never throws, so
+ * callers can run it after the answer without guarding it.
+ */
+export async function refreshConversationOverview(
+  conversationId: string,
+  llmOptions: ResolvedLLMOptions,
+  usage: LLMUsageContext = {}
+): Promise<ConversationOverview | null> {
+  try {
+    const conversation = await prisma.conversation.findUnique({
+      where: { id: conversationId },
+      include: { messages: { orderBy: [{ createdAt: 'asc' }, { id: 'asc' }] } }
+    });
+    if (!conversation) return null;
+
+    const messages = getActivePath(conversation.messages, conversation.activeLeafId)
+      .filter(msg => (msg.role === 'user' || msg.role === 'assistant') && msg.content.trim());
+    const metadata = (conversation.metadata as Record<string, any> | null) || {};
+    const previous = metadata.summary as ConversationSummary | undefined;
+
+    const due = previous
+      ? messages.length - previous.messageCount >= REFRESH_INTERVAL
+      : messages.some(msg => msg.role === 'assistant');
+    if (!due) return null;
+
+    const userTitle = isUserTitle(metadata);
+    const { data } = await generateStructured(createSummaryClient(llmOptions, { ...usage, purpose: 'summary' }), {
+      messages: [
+        {
+          role: 'system',
+          content: 'You name and summarize conversations between a user and an AI assistant so they are easy to find later. The title is a short noun phrase naming the topic. The summary is one paragraph saying what the user wanted and what was concluded. Write both in the language of the conversation.'
+        },
+        { role: 'user', content: formatTranscript(messages) }
+      ],
+      temperature: 0.2,
+      maxTokens: 300
+    }, overviewSchema, { name: 'conversation_overview' });
+
+    const title = userTitle ? conversation.title : cleanTitle(data.title) || conversation.title;
+    const summary: ConversationSummary = {
+      content: data.summary.trim(),
+      messageCount: messages.length,
+      generatedAt: new Date().toISOString()
+    };
+
+    // Only if the title is still the one read above, so a rename made meanwhile wins. Only these
+    // keys are merged into the stored metadata: turns that ran while the summary was generated may
+    // have saved a history summary or a model and persona selection the copy read above lacks.
+    // updatedAt is left out (raw SQL does not bump it): this is background bookkeeping, not
+    // activity, so the list order stays whatever the latest turn made it.
+    const patch = { summary, ...(userTitle ? {} : { titleSource: 'generated' }) };
+    const count = await prisma.$executeRaw`
+      UPDATE conversations
+      SET title = ${title},
+          metadata = (CASE WHEN jsonb_typeof(metadata) = 'object' THEN metadata ELSE '{}'::jsonb END) || ${JSON.stringify(patch)}::jsonb
+      WHERE id = ${conversationId} AND title IS NOT DISTINCT FROM ${conversation.title}
+    `;
+
+    return count > 0 ? { title, summary: summary.content } : null;
+  } catch (error) {
+    console.error('Conversation overview generation failed:', error);
+    return null;
+  }
+}
@@ -0,0 +1,156 @@
+import { Persona, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { LLMToolDefinition, isLLMProvider } from '@/lib/llm';
+import { LLMSelection } from '@/lib/llm/config';
+
+// Used when a conversation has no persona and the user has no default one
+export const DEFAULT_SYSTEM_PROMPT = `You are Avilink, an advanced AI assistant with access to powerful tools including:
+{{tools}}
+
+Call these tools whenever they help answer the user, then answer using their results. Be helpful, accurate, and efficient.
+
+Today's date is {{date}}. Reply in the user's preferred language ({{language}}) unless they write in another one.`;
+
+export interface PromptContext {
+  language: string;
+  tools: LLMToolDefinition[];
+  now?: Date;
+}
+
+export interface PersonaInput {
+  name?: string;
+  description?: string | null;
+  systemPrompt?: string;
+  provider?: string | null;
+  model?: string | null;
+  temperature?: number | null;
+  enabledTools?: string[] | null;
+  isDefault?: boolean;
+}
+
+/**
+ * Fills in the placeholders a persona prompt may use. Unknown placeholders are left as
+ * written so a typo shows up in the prompt rather than silently disappearing.
+ */
+export function renderSystemPrompt(template: string, context: PromptContext): string {
+  const now = context.now || new Date();
+  const values: Record<string, string> = {
+    date: now.toISOString().slice(0, 10),
+    datetime: now.toISOString(),
+    language: context.language,
+    tools: context.tools.length > 0
+      ? context.tools.map(tool => `- ${tool.name}: ${tool.description}`).join('\n')
+      : '- none (answer from your own knowledge)',
+    tool_names: context.tools.map(tool => tool.name).join(', ') || 'none'
+  };
+
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name) => values[name] ?? placeholder);
+}
+
+// Null means the persona does not restrict tools
+export function getEnabledTools(persona: Pick<Persona, 'enabledTools'> | null): string[] | null {
+  const enabledTools = persona?.enabledTools;
+  return Array.isArray(enabledTools) ? enabledTools.filter((name): name is string => typeof name === 'string') : null;
+}
+
+export function getPersonaSelection(persona: Pick<Persona, 'provider' | 'model'> | null): LLMSelection | undefined {
+  if (!persona || !isLLMProvider(persona.provider)) return undefined;
+  return { provider: persona.provider, model: persona.model || undefined };
+}
+
+export function findPersona(userId: string, personaId: string) {
+  return prisma.persona.findFirst({ where: { id: personaId, userId } });
+}
+
+// The conversation's persona when it still exists, otherwise the user's default one
+export async function resolvePersona(userId: string, personaId?: string | null): Promise<Persona | null> {
+  if (personaId) {
+    const persona = await findPersona(userId, personaId);
+    if (persona) return persona;
+  }
+
+  return prisma.persona.findFirst({ where: { userId, isDefault: true } });
+}
+
+/**
+ * Validates a create or update payload. With `partial` set, missing fields are left out
+ * of the result instead of being required.
+ */
+export function parsePersonaInput(
+  body: any,
+  availableTools: string[],
+  partial = false
+): { data: PersonaInput; error?: undefined } | { data?: undefined; error: string } {
+  if (!body || typeof body !== 'object') {
+    return { error: 'Request body must be an object' };
+  }
+
+  const data: PersonaInput = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== 'string' || !body.name.trim()) return { error: 'Name is required' };
+    data.name = body.name.trim().slice(0, 100);
+  }
+  if (body.systemPrompt !== undefined || !partial) {
+    if (typeof body.systemPrompt !== 'string' || !body.systemPrompt.trim()) return { error: 'System prompt is required' };
+    data.systemPrompt = body.systemPrompt;
+  }
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== 'string') return { error: 'Description must be a string or null' };
+    data.description = body.description;
+  }
+  if (body.provider !== undefined) {
+    if (body.provider !== null && !isLLMProvider(body.provider)) return { error: 'Provider must be a supported LLM provider or null' };
+    data.provider = body.provider;
+  }
+  if (body.model !== undefined) {
+    if (body.model !== null && (typeof body.model !== 'string' || !body.model)) return { error: 'Model must be a non-empty string or null' };
+    data.model = body.model;
+  }
+  if (body.temperature !== undefined) {
+    const valid = body.temperature === null || (typeof body.temperature === 'number' && body.temperature >= 0 && body.temperature <= 2);
+    if (!valid) return { error: 'Temperature must be a number between 0 and 2, or null' };
+    data.temperature = body.temperature;
+  }
+  if (body.enabledTools !== undefined) {
+    if (body.enabledTools !== null) {
+      if (!Array.isArray(body.enabledTools) || !body.enabledTools.every((name: unknown) => typeof name === 'string')) {
+        return { error: 'enabledTools must be an array of tool names or null' };
+      }
+      const unknown = body.enabledTools.filter((name: string) => !availableTools.includes(name));
+      if (unknown.length > 0) return { error: `Unknown tools: ${unknown.join(', ')}` };
+    }
+    data.enabledTools = body.enabledTools;
+  }
+  if (body.isDefault !== undefined) {
+    if (typeof body.isDefault !== 'boolean') return { error: 'isDefault must be a boolean' };
+    data.isDefault = body.isDefault;
+  }
+
+  return { data };
+}
+
+// Prisma needs an explicit database NULL to clear a JSON column
+export function toPersonaData(input: PersonaInput) {
+  const { enabledTools, ...rest } = input;
+  return {
+    ...rest,
+    ...(enabledTools !== undefined ? { enabledTools: enabledTools === null ? Prisma.DbNull : enabledTools } : {})
+  };
+}
+
+export function serializePersona(persona: Persona) {
+  return {
+    id: persona.id,
+    name: persona.name,
+    description: persona.description,
+    systemPrompt: persona.systemPrompt,
+    provider: persona.provider,
+    model: persona.model,
+    temperature: persona.temperature,
+    enabledTools: getEnabledTools(persona),
+    isDefault: persona.isDefault,
+    createdAt: persona.createdAt,
+    updatedAt: persona.updatedAt
+  };
+}
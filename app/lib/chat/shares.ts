@@ -0,0 +1,125 @@
+import { randomBytes } from 'crypto';
+import { ConversationShare } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { SharedConversation, SharedMessage } from '@/lib/types';
+import { ensureMessageTree, getActivePath } from './tree';
+
+const UPLOAD_DIR = process.env.UPLOAD_DIR || '/app/uploads';
+
+// Keys holding server file paths or the text of uploaded files; left out of shared tool calls
+const HIDDEN_KEYS = /(^|_)path$|Path$|^(extracted_text|extractedText|processedContent|processed_content|file_content|fileContent)$/;
+
+export type ShareStatus = 'active' | 'expired' | 'revoked';
+
+export function createShareToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+export function getShareStatus(share: Pick<ConversationShare, 'expiresAt' | 'revokedAt'>): ShareStatus {
+  if (share.revokedAt) return 'revoked';
+  if (share.expiresAt && share.expiresAt.getTime() <= Date.now()) return 'expired';
+  return 'active';
+}
+
+export function serializeShare(share: ConversationShare) {
+  return {
+    id: share.id,
+    conversationId: share.conversationId,
+    token: share.token,
+    url: `/share/${share.token}`,
+    frozen: share.frozenMessageId !== null,
+    frozenMessageId: share.frozenMessageId,
+    expiresAt: share.expiresAt,
+    revokedAt: share.revokedAt,
+    status: getShareStatus(share),
+    createdAt: share.createdAt
+  };
+}
+
+function redact(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.split(UPLOAD_DIR).join('[uploads]');
+  }
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, entry]) => {
+      if (!HIDDEN_KEYS.test(key)) result[key] = redact(entry);
+    });
+    return result;
+  }
+  return value;
+}
+
+function toSharedMessage(message: { id: string; role: string; content: string; metadata: unknown; createdAt: Date }): SharedMessage {
+  const metadata = (message.metadata as Record<string, any> | null) || {};
+
+  if (message.role === 'tool') {
+    let parsed: any = {};
+    try {
+      parsed = JSON.parse(message.content);
+    } catch {
+      parsed = { result: message.content };
+    }
+    return {
+      id: message.id,
+      role: 'tool',
+      content: '',
+      createdAt: message.createdAt,
+      tool: {
+        name: parsed.tool || metadata.toolName || 'tool',
+        parameters: redact(parsed.parameters || {}) as Record<string, any>,
+        result: redact(parsed.result)
+      }
+    };
+  }
+
+  // Only what the conversation itself showed: no model settings, request ids or file locations
+  const attachments = Array.isArray(metadata.attachments)
+    ? metadata.attachments.map((file: any) => ({ name: file?.name, type: file?.type, size: file?.size }))
+    : undefined;
+
+  return {
+    id: message.id,
+    role: message.role as SharedMessage['role'],
+    content: message.content,
+    createdAt: message.createdAt,
+    attachments,
+    toolCalls: Array.isArray(metadata.toolCalls)
+      ? metadata.toolCalls.map((call: any) => ({ toolName: call.toolName, success: call.success }))
+      : undefined
+  };
+}
+
+/**
+ * Resolves a share token to what may be shown publicly: the shared branch with system
+ * messages left out, tool calls without file paths or file contents, and none of the
+ * conversation's metadata (persona, model, summaries). Returns null for unknown, revoked
+ * and expired links.
+ */
+export async function loadSharedConversation(token: string): Promise<SharedConversation | null> {
+  const share = await prisma.conversationShare.findUnique({
+    where: { token },
+    include: { conversation: true }
+  });
+  if (!share || getShareStatus(share) !== 'active') return null;
+
+  // A live share follows whichever branch the owner has selected
+  const leafId = share.frozenMessageId || await ensureMessageTree(share.conversationId);
+  const messages = await prisma.message.findMany({
+    where: { conversationId: share.conversationId },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+  });
+
+  return {
+    title: share.conversation.title,
+    frozen: share.frozenMessageId !== null,
+    sharedAt: share.createdAt,
+    expiresAt: share.expiresAt,
+    messages: getActivePath(messages, leafId)
+      .filter(msg => msg.role !== 'system')
+      .map(toSharedMessage)
+  };
+}
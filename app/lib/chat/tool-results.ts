@@ -0,0 +1,82 @@
+const MAX_TOOL_RESULT_CHARS = parseInt(process.env.TOOL_RESULT_MAX_CHARS || '6000', 10);
+
+// Keeps the beginning and end of long text, which usually carry the most signal
+export function truncateMiddle(text: string, maxLength: number): string {
+  if (!text || text.length <= maxLength) return text;
+  const head = Math.ceil(maxLength * 0.7);
+  const tail = maxLength - head;
+  const omitted = text.length - head - tail;
+  return `${text.slice(0, head)}\n… [${omitted} characters omitted] …\n${tail > 0 ? text.slice(-tail) : ''}`;
+}
+
+function truncate(text: unknown, maxLength: number): string | undefined {
+  if (typeof text !== 'string') return undefined;
+  return text.length > maxLength ? `${text.slice(0, maxLength)}…` : text;
+}
+
+function compactDeepSearch(data: any) {
+  const sources: any[] = Array.isArray(data?.sources) ? data.sources : [];
+  return {
+    query: data?.query,
+    summary: truncate(data?.summary, 3000),
+    total_sources: data?.total_sources ?? sources.length,
+    sources: sources.slice(0, 10).map(source => ({
+      title: source.title,
+      url: source.url,
+      domain: source.domain,
+      snippet: truncate(source.snippet, 200)
+    }))
+  };
+}
+
+function compactWebBrowsing(data: any) {
+  return {
+    url: data?.url,
+    title: data?.title,
+    analysis: truncate(data?.analysis, 2000),
+    content: data?.content ? truncateMiddle(data.content, 3000) : undefined,
+    status_code: data?.metadata?.status_code,
+    extracted_links: Array.isArray(data?.metadata?.extracted_links) ? data.metadata.extracted_links.slice(0, 20) : undefined
+  };
+}
+
+function compactPythonExecution(data: any) {
+  return {
+    status: data?.status,
+    output: data?.output ? truncateMiddle(data.output, 3000) : data?.output,
+    error: data?.error ? truncateMiddle(data.error, 1500) : data?.error,
+    execution_time: data?.execution_time
+  };
+}
+
+function compactFileProcessing(data: any) {
+  return {
+    filename: data?.filename,
+    content_type: data?.content_type,
+    analysis: truncate(data?.analysis, 2000),
+    extracted_data: data?.extracted_data,
+    extracted_text: data?.extracted_text ? truncateMiddle(data.extracted_text, 3000) : undefined
+  };
+}
+
+const COMPACTORS: Record<string, ((data: any) => unknown) | undefined> = {
+  deep_search: compactDeepSearch,
+  web_browsing: compactWebBrowsing,
+  python_execution: compactPythonExecution,
+  file_processing: compactFileProcessing
+};
+
+/**
+ * Serializes a tool result for the model. Known tools keep only the fields the model needs
+ * (summaries, top sources, head and tail of long output); anything still too large is cut
+ * to TOOL_RESULT_MAX_CHARS.
+ */
+export function formatToolResultForModel(toolName: string, result: any): string {
+  const compact = COMPACTORS[toolName];
+  const payload = compact && result && typeof result === 'object' && 'data' in result
+    ? { ...result, data: compact(result.data) }
+    : result;
+
+  const serialized = JSON.stringify(payload) ?? '';
+  return truncateMiddle(serialized, MAX_TOOL_RESULT_CHARS);
+}
@@ -0,0 +1,142 @@
+import { prisma } from '@/lib/db';
+
+/**
+ * Messages form a tree through `parentId`: editing a user message or regenerating an answer
+ * adds a sibling instead of replacing it. `Conversation.activeLeafId` marks the selected
+ * branch, which is what the LLM is sent and what the chat shows. Tool messages hang off the
+ * message they belong to and are never leaves themselves.
+ */
+
+// The fields needed to walk the tree
+export interface MessageNode {
+  id: string;
+  role: string;
+  parentId: string | null;
+  createdAt: Date;
+}
+
+function compareNodes(a: MessageNode, b: MessageNode): number {
+  const diff = a.createdAt.getTime() - b.createdAt.getTime();
+  if (diff !== 0) return diff;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+export function getMessageNodes(conversationId: string): Promise<MessageNode[]> {
+  return prisma.message.findMany({
+    where: { conversationId },
+    select: { id: true, role: true, parentId: true, createdAt: true },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+  });
+}
+
+/**
+ * Conversations saved before messages had parents are a flat list. Chains each message to
+ * the one before it, links tool messages to the answer they were made for, and selects the
+ * last message as the active leaf. Returns the active leaf, or null when there is none yet.
+ */
+export async function ensureMessageTree(conversationId: string): Promise<string | null> {
+  const conversation = await prisma.conversation.findUnique({
+    where: { id: conversationId },
+    select: { activeLeafId: true, updatedAt: true }
+  });
+  if (!conversation || conversation.activeLeafId) {
+    return conversation?.activeLeafId ?? null;
+  }
+
+  const messages = await prisma.message.findMany({
+    where: { conversationId },
+    select: { id: true, role: true, parentId: true, metadata: true },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+  });
+
+  const updates: Array<{ id: string; parentId: string }> = [];
+  let previousId: string | null = null;
+
+  for (const msg of messages) {
+    if (msg.role === 'tool') {
+      const assistantMessageId = ((msg.metadata as Record<string, any> | null) || {}).assistantMessageId;
+      const parentId = messages.some(other => other.id === assistantMessageId) ? assistantMessageId as string : previousId;
+      if (parentId && !msg.parentId) updates.push({ id: msg.id, parentId });
+      continue;
+    }
+
+    if (previousId && !msg.parentId) updates.push({ id: msg.id, parentId: previousId });
+    previousId = msg.id;
+  }
+
+  if (!previousId) return null;
+
+  await prisma.$transaction([
+    ...updates.map(update => prisma.message.update({
+      where: { id: update.id },
+      data: { parentId: update.parentId }
+    })),
+    // Keeps its place in the conversation list
+    prisma.conversation.update({
+      where: { id: conversationId },
+      data: { activeLeafId: previousId, updatedAt: conversation.updatedAt }
+    })
+  ]);
+
+  return previousId;
+}
+
+/**
+ * The branch ending at `leafId`: the leaf and its ancestors, plus the tool messages attached
+ * to any of them, in chronological order.
+ */
+export function getActivePath<T extends MessageNode>(messages: T[], leafId: string | null): T[] {
+  const byId: Record<string, T> = {};
+  messages.forEach(msg => {
+    byId[msg.id] = msg;
+  });
+
+  const onPath: Record<string, boolean> = {};
+  let current: T | undefined = leafId ? byId[leafId] : undefined;
+  while (current && !onPath[current.id]) {
+    onPath[current.id] = true;
+    current = current.parentId ? byId[current.parentId] : undefined;
+  }
+
+  return messages
+    .filter(msg => onPath[msg.id] || (msg.role === 'tool' && msg.parentId !== null && onPath[msg.parentId]))
+    .sort(compareNodes);
+}
+
+// Where selecting `messageId` lands: down from it through the most recent reply at each step
+export function findLatestLeaf(messages: MessageNode[], messageId: string): string {
+  const visited: Record<string, boolean> = {};
+  let leafId = messageId;
+
+  while (!visited[leafId]) {
+    visited[leafId] = true;
+    const children = messages.filter(msg => msg.parentId === leafId && msg.role !== 'tool');
+    if (children.length === 0) break;
+    leafId = children.reduce((latest, child) => (compareNodes(child, latest) > 0 ? child : latest)).id;
+  }
+
+  return leafId;
+}
+
+/**
+ * Adds `siblingIds` to the messages that have alternatives: every non-tool message with the
+ * same parent, the message itself included, oldest first.
+ */
+export function withSiblingIds<T extends MessageNode>(
+  messages: T[],
+  nodes: MessageNode[]
+): Array<T & { siblingIds?: string[] }> {
+  const childrenByParent: Record<string, MessageNode[]> = {};
+  nodes.forEach(node => {
+    if (node.role === 'tool') return;
+    const key = node.parentId || '';
+    (childrenByParent[key] = childrenByParent[key] || []).push(node);
+  });
+
+  return messages.map(msg => {
+    const siblings = msg.role === 'tool' ? [] : childrenByParent[msg.parentId || ''] || [];
+    return siblings.length > 1
+      ? { ...msg, siblingIds: siblings.slice().sort(compareNodes).map(sibling => sibling.id) }
+      : msg;
+  });
+}
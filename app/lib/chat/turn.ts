@@ -0,0 +1,450 @@
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { Conversation, Message, User } from '@prisma/client';
+import { prisma } from '@/lib/db';
+import { LLMClient, LLMRequest, linkUsageToMessage } from '@/lib/llm';
+import { LLMSelection, findLLMConfig, parseLLMSelection, resolveLLMOptions } from '@/lib/llm/config';
+import { ToolContext } from '@/lib/tools/base-tool';
+import { ToolRegistry } from '@/lib/tools/tool-registry';
+import { QuotaExceededError, assertQuota, quotaExceeded } from '@/lib/quotas';
+import { getDisabledTools } from '@/lib/workspaces';
+import { formatServerSentEvent } from '@/lib/sse';
+import { ChatStreamEvent, MessageAttachment } from '@/lib/types';
+import { AgentLoopResult, runAgentLoop } from './agent-loop';
+import { buildAttachmentContext, getAttachmentFileIds, getAttachmentTokenBudget, loadAttachmentFiles } from './attachments';
+import { prepareConversationContext } from './context';
+import { ConversationOverview, refreshConversationOverview } from './overview';
+import {
+  DEFAULT_SYSTEM_PROMPT,
+  findPersona,
+  getEnabledTools,
+  getPersonaSelection,
+  renderSystemPrompt,
+  resolvePersona
+} from './personas';
+import { getActivePath } from './tree';
+
+const toolRegistry = new ToolRegistry();
+const DEFAULT_MAX_TOKENS = 2000;
+
+export interface ChatTurnOptions {
+  conversation: Conversation & { messages: Message[]; user: User };
+  // Text of the user message the assistant answers
+  content: string;
+  // Message the user message follows; its branch is the history sent to the LLM
+  parentId: string | null;
+  // An already stored user message to answer again instead of saving a new one
+  userMessage?: Message;
+  // Uploaded files to attach to a new user message; an answered-again message keeps its own
+  fileIds?: string[];
+  llmSelection?: LLMSelection;
+  // A persona id selects that persona for the conversation, null switches back to the default
+  personaId?: string | null;
+  stream?: boolean;
+  // Aborts when the client disconnects or stops the generation; the turn is then cancelled
+  signal?: AbortSignal;
+  // Tools the caller's API token may use, on top of the persona's selection; null allows all
+  allowedTools?: string[] | null;
+  // The member taking the turn in a workspace conversation, when not the one who started it;
+  // quotas, usage and tool runs count against them, and personas are theirs
+  userId?: string;
+}
+
+/**
+ * Persists the assistant turn: the answer itself, then one `role: 'tool'` message per tool
+ * call made along the way, each linked back to the answer through `assistantMessageId`.
+ * LLM usage recorded under `metadata.requestId` is attributed to the saved answer, which
+ * becomes the end of the conversation's active branch.
+ */
+async function saveAssistantTurn(
+  conversationId: string,
+  parentId: string,
+  result: AgentLoopResult,
+  metadata: Record<string, any>,
+  content = result.content
+) {
+  const savedMessage = await prisma.message.create({
+    data: {
+      conversationId,
+      parentId,
+      role: 'assistant',
+      content,
+      metadata: {
+        ...metadata,
+        // The provider that actually answered, which may be a fallback
+        provider: result.response?.provider,
+        model: result.response?.model,
+        attempts: result.attempts,
+        failedAttempts: result.response?.failures?.length ? (result.response.failures as any) : undefined,
+        iterations: result.iterations,
+        stopReason: result.stopReason,
+        toolCalls: result.toolRuns.map(run => ({
+          id: run.toolCall.id,
+          toolName: run.toolCall.name,
+          success: run.result.success
+        }))
+      }
+    }
+  });
+
+  for (const run of result.toolRuns) {
+    await prisma.message.create({
+      data: {
+        conversationId,
+        parentId: savedMessage.id,
+        role: 'tool',
+        content: JSON.stringify({
+          tool: run.toolCall.name,
+          parameters: run.toolCall.arguments,
+          result: run.result
+        }),
+        metadata: {
+          toolName: run.toolCall.name,
+          toolCallId: run.toolCall.id,
+          assistantMessageId: savedMessage.id,
+          iteration: run.iteration,
+          executionTime: run.result.executionTime
+        }
+      }
+    });
+  }
+
+  if (metadata.requestId) {
+    await linkUsageToMessage(metadata.requestId, savedMessage.id);
+  }
+
+  await prisma.conversation.update({
+    where: { id: conversationId },
+    data: { activeLeafId: savedMessage.id, updatedAt: new Date() }
+  });
+
+  return savedMessage;
+}
+
+/**
+ * Streams the agent run as Server-Sent Events. A client that disconnects (or stops the
+ * generation) cancels the model call and any running tool; the assistant message is then
+ * persisted with exactly the content that was sent and a `cancelled` status.
+ */
+function streamChatResponse(
+  llm: LLMClient,
+  llmRequest: LLMRequest,
+  context: {
+    conversationId: string;
+    userMessageId: string;
+    attachments?: MessageAttachment[];
+    llmConfigId?: string;
+    personaId?: string;
+    requestId: string;
+    toolContext: ToolContext;
+    signal?: AbortSignal;
+    // Regenerates the title and summary when due, once the answer is saved
+    refreshOverview: () => Promise<ConversationOverview | null>;
+  }
+) {
+  const encoder = new TextEncoder();
+  // Request abort and stream cancellation both mean the client is gone
+  const cancellation = new AbortController();
+  const cancelTurn = () => cancellation.abort();
+  if (context.signal?.aborted) cancelTurn();
+  context.signal?.addEventListener('abort', cancelTurn, { once: true });
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent): boolean => {
+        if (cancellation.signal.aborted) return false;
+        try {
+          controller.enqueue(encoder.encode(formatServerSentEvent(event.type, event)));
+          return true;
+        } catch {
+          cancelTurn();
+          return false;
+        }
+      };
+
+      send({
+        type: 'start',
+        conversationId: context.conversationId,
+        userMessageId: context.userMessageId,
+        attachments: context.attachments
+      });
+
+      // Tracks what actually reached the client, in case the loop throws partway
+      const partial: AgentLoopResult = { content: '', toolRuns: [], iterations: 0, attempts: 0, stopReason: 'stopped' };
+      let result: AgentLoopResult = partial;
+      let streamError: unknown;
+
+      try {
+        result = await runAgentLoop({
+          llm,
+          registry: toolRegistry,
+          request: llmRequest,
+          stream: true,
+          toolContext: context.toolContext,
+          signal: cancellation.signal,
+          onEvent: (event) => {
+            switch (event.type) {
+              case 'delta':
+                if (!send(event)) return false;
+                partial.content += event.content;
+                return true;
+              case 'tool_call':
+                return send({
+                  type: 'tool_call',
+                  toolCallId: event.toolCall.id,
+                  toolName: event.toolCall.name,
+                  arguments: event.toolCall.arguments
+                });
+              case 'tool_result':
+                partial.toolRuns.push({ toolCall: event.toolCall, result: event.result, iteration: event.iteration });
+                return send({
+                  type: 'tool_result',
+                  toolCallId: event.toolCall.id,
+                  toolName: event.toolCall.name,
+                  result: event.result
+                });
+            }
+          }
+        });
+      } catch (error) {
+        console.error('Chat stream error:', error);
+        streamError = error;
+      }
+
+      try {
+        if (result.content || result.toolRuns.length > 0 || !streamError) {
+          const status = cancellation.signal.aborted ? 'cancelled' : streamError ? 'error' : 'complete';
+          const savedMessage = await saveAssistantTurn(context.conversationId, context.userMessageId, result, {
+            llmConfigId: context.llmConfigId,
+            personaId: context.personaId,
+            requestId: context.requestId,
+            status
+          });
+
+          send({
+            type: 'message_saved',
+            conversationId: context.conversationId,
+            message: {
+              id: savedMessage.id,
+              parentId: savedMessage.parentId,
+              role: 'assistant',
+              content: savedMessage.content,
+              createdAt: savedMessage.createdAt,
+              metadata: savedMessage.metadata as Record<string, any>
+            }
+          });
+        }
+      } catch (error) {
+        console.error('Failed to save streamed message:', error);
+        streamError = streamError || error;
+      }
+
+      if (streamError) {
+        send({ type: 'error', error: 'Failed to process chat message' });
+      } else if (!cancellation.signal.aborted) {
+        const overview = await context.refreshOverview();
+        if (overview) {
+          send({ type: 'conversation_updated', conversationId: context.conversationId, ...overview });
+        }
+      }
+
+      context.signal?.removeEventListener('abort', cancelTurn);
+      if (!cancellation.signal.aborted) {
+        controller.close();
+      }
+    },
+    cancel() {
+      cancelTurn();
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
+
+/**
+ * Runs one chat turn: stores the user message under `parentId` (unless an existing one is
+ * answered again), sends the branch leading up to it to the LLM and saves the answer as the
+ * new end of the active branch. Shared by new messages, edits and regenerations; answers
+ * with JSON, or with Server-Sent Events when `stream` is set.
+ */
+export async function runChatTurn(options: ChatTurnOptions): Promise<Response> {
+  const { conversation, content, parentId, llmSelection, personaId } = options;
+  const userId = options.userId || conversation.userId;
+
+  // Refused once a token quota is used up; the turn's own tokens are only known afterwards
+  try {
+    await assertQuota(userId, 'llmTokens');
+  } catch (error) {
+    if (error instanceof QuotaExceededError) return quotaExceeded(error);
+    throw error;
+  }
+
+  // Files attached earlier may have been removed since; only newly attached ones must exist
+  const { files, missing } = await loadAttachmentFiles(
+    conversation.userId,
+    options.userMessage ? getAttachmentFileIds(options.userMessage.metadata) : options.fileIds || [],
+    conversation.workspaceId
+  );
+  if (missing.length > 0 && !options.userMessage) {
+    return NextResponse.json({ error: 'File not found', fileIds: missing }, { status: 404 });
+  }
+
+  // Checked before it is stored, so a bad id cannot break the conversation's later turns
+  if (llmSelection?.configId && !(await findLLMConfig(conversation.userId, llmSelection.configId, conversation.workspaceId))) {
+    return NextResponse.json({ error: 'LLM configuration not found' }, { status: 404 });
+  }
+
+  // A model or persona picked for this request sticks to the conversation for later turns
+  let conversationMetadata = (conversation.metadata as Record<string, any> | null) || {};
+  const llmChanged = llmSelection && JSON.stringify(llmSelection) !== JSON.stringify(conversationMetadata.llm);
+  if (llmChanged || (personaId !== undefined && personaId !== conversationMetadata.personaId)) {
+    if (personaId && !(await findPersona(userId, personaId))) {
+      return NextResponse.json({ error: 'Persona not found' }, { status: 404 });
+    }
+
+    conversationMetadata = {
+      ...conversationMetadata,
+      ...(llmSelection ? { llm: llmSelection } : {}),
+      ...(personaId !== undefined ? { personaId } : {})
+    };
+    await prisma.conversation.update({
+      where: { id: conversation.id },
+      data: { metadata: conversationMetadata as any }
+    });
+  }
+
+  // Personas are personal, so in a workspace conversation the one picked by another member falls
+  // back to the acting member's default rather than applying someone else's private prompt
+  const persona = await resolvePersona(userId, conversationMetadata.personaId);
+  // Model precedence: this request, then the conversation, then the persona, then the user's default
+  // (the workspace's, for workspace conversations)
+  const llmOptions = await resolveLLMOptions(
+    conversation.userId,
+    llmSelection || parseLLMSelection(conversationMetadata.llm) || getPersonaSelection(persona),
+    conversation.workspaceId
+  );
+  // Every LLM call made for this request, including tools and summaries, shares one requestId
+  const requestId = randomUUID();
+  const toolContext: ToolContext = {
+    userId,
+    workspaceId: conversation.workspaceId,
+    conversationId: conversation.id,
+    requestId,
+    llmOptions
+  };
+  const llm = new LLMClient({
+    ...llmOptions,
+    defaults: {
+      temperature: 0.7,
+      maxTokens: DEFAULT_MAX_TOKENS,
+      ...llmOptions.defaults,
+      ...(typeof persona?.temperature === 'number' ? { temperature: persona.temperature } : {})
+    },
+    usage: { userId, conversationId: conversation.id, requestId }
+  });
+
+  const enabledTools = getEnabledTools(persona);
+  const allowedTools = options.allowedTools ?? null;
+  const disabledTools = await getDisabledTools(conversation.workspaceId);
+  const tools = toolRegistry.getToolDefinitions(
+    allowedTools && enabledTools ? enabledTools.filter(name => allowedTools.includes(name)) : allowedTools || enabledTools
+  ).filter(tool => !disabledTools.includes(tool.name));
+
+  // Extracted file contents go to the model with this turn only; the message records what was sent
+  const primaryTarget = llm.getPrimaryTarget();
+  const attachmentContext = await buildAttachmentContext(files, {
+    maxTokens: primaryTarget ? getAttachmentTokenBudget(primaryTarget.model) : 0,
+    provider: primaryTarget?.provider || 'openai',
+    fileToolEnabled: tools.some(tool => tool.name === 'file_processing')
+  });
+
+  // Save user message
+  const userMessage = options.userMessage || await prisma.message.create({
+    data: {
+      conversationId: conversation.id,
+      parentId,
+      role: 'user',
+      content,
+      metadata: files.length > 0 ? { attachments: attachmentContext.attachments as any } : undefined
+    }
+  });
+  await prisma.conversation.update({
+    where: { id: conversation.id },
+    data: { activeLeafId: userMessage.id }
+  });
+  const systemPrompt = renderSystemPrompt(persona?.systemPrompt || DEFAULT_SYSTEM_PROMPT, {
+    language: conversation.user.language,
+    tools
+  });
+
+  // Prepare messages for LLM, summarizing older turns that no longer fit the context window
+  const context = await prepareConversationContext({
+    conversation: {
+      id: conversation.id,
+      metadata: conversationMetadata,
+      messages: getActivePath(conversation.messages, parentId)
+    },
+    incoming: [{ role: 'user', content: content + attachmentContext.content }],
+    llm,
+    systemPrompt,
+    tools,
+    maxTokens: llmOptions.defaults?.maxTokens ?? DEFAULT_MAX_TOKENS
+  });
+
+  const llmRequest: LLMRequest = {
+    messages: [{ role: 'system', content: systemPrompt }, ...context.messages],
+    tools
+  };
+
+  if (options.stream) {
+    return streamChatResponse(llm, llmRequest, {
+      conversationId: conversation.id,
+      userMessageId: userMessage.id,
+      attachments: files.length > 0 ? attachmentContext.attachments : undefined,
+      llmConfigId: llmOptions.configId,
+      personaId: persona?.id,
+      requestId,
+      toolContext,
+      signal: options.signal,
+      refreshOverview: () => refreshConversationOverview(conversation.id, llmOptions, toolContext)
+    });
+  }
+
+  const result = await runAgentLoop({ llm, registry: toolRegistry, request: llmRequest, toolContext, signal: options.signal });
+
+  // A cancelled turn keeps whatever the model had produced, even if that is nothing
+  const cancelled = result.stopReason === 'cancelled';
+  const assistantMessage = result.content || (cancelled ? '' : 'I apologize, but I encountered an error processing your request.');
+
+  const savedAssistantMessage = await saveAssistantTurn(conversation.id, userMessage.id, result, {
+    llmConfigId: llmOptions.configId,
+    personaId: persona?.id,
+    requestId,
+    status: cancelled ? 'cancelled' : 'complete'
+  }, assistantMessage);
+
+  // The JSON answer does not wait for the title; it shows up on the next listing
+  if (!cancelled) {
+    void refreshConversationOverview(conversation.id, llmOptions, toolContext);
+  }
+
+  return NextResponse.json({
+    conversationId: conversation.id,
+    userMessageId: userMessage.id,
+    attachments: files.length > 0 ? attachmentContext.attachments : undefined,
+    message: {
+      id: savedAssistantMessage.id,
+      parentId: savedAssistantMessage.parentId,
+      role: 'assistant',
+      content: assistantMessage,
+      metadata: savedAssistantMessage.metadata,
+      createdAt: savedAssistantMessage.createdAt
+    }
+  });
+}
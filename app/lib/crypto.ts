@@ -0,0 +1,43 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto'
+
+// Secrets are stored as `v1:<iv>:<auth tag>:<ciphertext>` (base64 parts, AES-256-GCM)
+const SECRET_PREFIX = 'v1'
+const ALGORITHM = 'aes-256-gcm'
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.ENCRYPTION_KEY || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('ENCRYPTION_KEY or NEXTAUTH_SECRET must be set to store secrets')
+  }
+  return createHash('sha256').update(secret).digest()
+}
+
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv(ALGORITHM, getEncryptionKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+  const tag = cipher.getAuthTag()
+
+  return [SECRET_PREFIX, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':')
+}
+
+export function decryptSecret(value: string): string {
+  const [prefix, iv, tag, ciphertext] = value.split(':')
+  if (prefix !== SECRET_PREFIX || !iv || !tag || !ciphertext) {
+    // Rows written before encryption was introduced hold the raw value
+    return value
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getEncryptionKey(), Buffer.from(iv, 'base64'))
+  decipher.setAuthTag(Buffer.from(tag, 'base64'))
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final(),
+  ]).toString('utf8')
+}
+
+export function maskSecret(secret: string): string {
+  if (secret.length <= 8) return '********'
+  return `${secret.slice(0, 3)}...${secret.slice(-4)}`
+}
@@ -89,6 +89,35 @@ export async function archiveConversation(conversationId: string) {
   })
 }
 
+export async function restoreConversation(conversationId: string) {
+  return await prisma.conversation.update({
+    where: { id: conversationId },
+    data: { isArchived: false },
+  })
+}
+
+// Shallow merge into the existing metadata; keys set to null are removed
+export async function updateConversationMetadata(conversationId: string, updates: Record<string, any>) {
+  const conversation = await prisma.conversation.findUniqueOrThrow({
+    where: { id: conversationId },
+    select: { metadata: true },
+  })
+
+  const metadata: Record<string, any> = { ...((conversation.metadata as Record<string, any> | null) || {}) }
+  Object.entries(updates).forEach(([key, value]) => {
+    if (value === null) {
+      delete metadata[key]
+    } else {
+      metadata[key] = value
+    }
+  })
+
+  return await prisma.conversation.update({
+    where: { id: conversationId },
+    data: { metadata },
+  })
+}
+
 export async function getUserFiles(userId: string) {
   return await prisma.file.findMany({
     where: {
@@ -0,0 +1,52 @@
+interface CircuitState {
+  failures: number;
+  openedAt?: number;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+/**
+ * Tracks consecutive failures per key. Once a key reaches the threshold its circuit opens
+ * and requests are skipped until the cooldown passes; the next request is then let through
+ * as a trial, closing the circuit on success or re-opening it on failure.
+ */
+export class CircuitBreaker {
+  private states: Record<string, CircuitState> = {};
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  canRequest(key: string): boolean {
+    const state = this.states[key];
+    if (!state || state.openedAt === undefined) return true;
+    return Date.now() - state.openedAt >= this.options.cooldownMs;
+  }
+
+  recordSuccess(key: string) {
+    delete this.states[key];
+  }
+
+  recordFailure(key: string) {
+    const state = this.states[key] || { failures: 0 };
+    state.failures += 1;
+
+    if (state.failures >= this.options.failureThreshold) {
+      state.openedAt = Date.now();
+    }
+
+    this.states[key] = state;
+  }
+
+  getState(key: string): 'closed' | 'open' | 'half-open' {
+    const state = this.states[key];
+    if (!state || state.openedAt === undefined) return 'closed';
+    return this.canRequest(key) ? 'half-open' : 'open';
+  }
+}
+
+export const providerCircuitBreaker = new CircuitBreaker({
+  failureThreshold: parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+  cooldownMs: parseInt(process.env.LLM_CIRCUIT_COOLDOWN_MS || '60000', 10)
+});
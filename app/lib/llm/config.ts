@@ -0,0 +1,262 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import { prisma } from '@/lib/db';
+import { decryptSecret, maskSecret } from '@/lib/crypto';
+import { LLMClientOptions, LLMTarget, getEnvFallbackChain, isLLMProvider } from './llm-client';
+import { LLMGenerationParameters, LLMProviderName } from './types';
+
+const NUMERIC_PARAMETERS: Array<keyof LLMGenerationParameters> = [
+  'temperature',
+  'maxTokens',
+  'topP',
+  'frequencyPenalty',
+  'presencePenalty'
+];
+
+// Hosts a configuration's base URL may point at even though they are on a private network, e.g. a
+// self-hosted model server: LLM_BASE_URL_ALLOWED_HOSTS="localhost,ollama.internal"
+const ALLOWED_PRIVATE_HOSTS = (process.env.LLM_BASE_URL_ALLOWED_HOSTS || '')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+
+export interface LLMSelection {
+  configId?: string;
+  provider?: LLMProviderName;
+  model?: string;
+}
+
+export interface ResolvedLLMOptions extends LLMClientOptions {
+  configId?: string;
+}
+
+// Keeps only the generation parameters we understand, dropping anything malformed
+export function sanitizeParameters(parameters: unknown): LLMGenerationParameters {
+  if (!parameters || typeof parameters !== 'object') {
+    return {};
+  }
+
+  const source = parameters as Record<string, unknown>;
+  const sanitized: LLMGenerationParameters = {};
+
+  NUMERIC_PARAMETERS.forEach(key => {
+    const value = source[key];
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      (sanitized as Record<string, number>)[key] = value;
+    }
+  });
+
+  if (Array.isArray(source.stop) && source.stop.every(item => typeof item === 'string')) {
+    sanitized.stop = source.stop as string[];
+  }
+
+  return sanitized;
+}
+
+// Provider endpoints must be absolute http(s) URLs
+export function isValidBaseUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Loopback, private, link-local, carrier-grade NAT and unspecified addresses, IPv4 and IPv6
+function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6, which URL parsing writes in hex (::ffff:c0a8:101 for 192.168.1.1)
+  const mapped = address.toLowerCase().match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+  if (mapped) {
+    if (mapped[1]) return isPrivateAddress(mapped[1]);
+    const high = parseInt(mapped[2], 16);
+    const low = parseInt(mapped[3], 16);
+    return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+
+  if (isIP(address) === 4) {
+    const [a, b] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168);
+  }
+
+  const normalized = address.toLowerCase();
+  return normalized === '::' || normalized === '::1' || /^f[cd]/.test(normalized) || /^fe[89ab]/.test(normalized);
+}
+
+/**
+ * Checks a base URL before a configuration is saved with it. Requests to it are made from the
+ * server, so hosts that are or resolve to a private address are refused unless listed in
+ * LLM_BASE_URL_ALLOWED_HOSTS. Returns the error to report, or null when the URL may be used.
+ */
+export async function validateBaseUrl(value: unknown): Promise<string | null> {
+  if (!isValidBaseUrl(value)) {
+    return 'Base URL must be an http(s) URL';
+  }
+
+  const host = new URL(value).hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (ALLOWED_PRIVATE_HOSTS.includes(host)) {
+    return null;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+  } catch {
+    return `Base URL host '${host}' could not be resolved`;
+  }
+  if (addresses.some(isPrivateAddress)) {
+    return `Base URL host '${host}' is on a private network; an administrator can allow it with LLM_BASE_URL_ALLOWED_HOSTS`;
+  }
+  return null;
+}
+
+export function parseLLMSelection(value: any): LLMSelection | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const selection: LLMSelection = {};
+  if (typeof value.configId === 'string') selection.configId = value.configId;
+  if (isLLMProvider(value.provider)) selection.provider = value.provider;
+  if (typeof value.model === 'string' && value.model) selection.model = value.model;
+
+  return Object.keys(selection).length > 0 ? selection : undefined;
+}
+
+// API-safe view of a configuration: the key is never returned, only a masked preview
+export function serializeLLMConfig(config: {
+  id: string;
+  provider: string;
+  model: string;
+  apiKey: string;
+  baseUrl: string | null;
+  isDefault: boolean;
+  isActive: boolean;
+  parameters: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+}) {
+  let apiKeyPreview: string | null = null;
+  try {
+    const apiKey = decryptSecret(config.apiKey);
+    apiKeyPreview = apiKey ? maskSecret(apiKey) : null;
+  } catch (error) {
+    console.error('Failed to decrypt API key for preview:', error);
+  }
+
+  return {
+    id: config.id,
+    provider: config.provider,
+    model: config.model,
+    apiKeyPreview,
+    baseUrl: config.baseUrl,
+    isDefault: config.isDefault,
+    isActive: config.isActive,
+    parameters: sanitizeParameters(config.parameters),
+    createdAt: config.createdAt,
+    updatedAt: config.updatedAt
+  };
+}
+
+// A workspace's shared configurations, or the user's own outside any workspace
+function configOwner(userId: string, workspaceId: string | null) {
+  return workspaceId ? { workspaceId } : { userId };
+}
+
+// An active configuration the user (or, with `workspaceId`, the workspace) may select by id
+export function findLLMConfig(userId: string, configId: string, workspaceId: string | null = null) {
+  return prisma.lLMConfiguration.findFirst({
+    where: { id: configId, ...configOwner(userId, workspaceId), isActive: true }
+  });
+}
+
+/**
+ * Resolves which provider, model, key and generation parameters to use for a user.
+ * Order: explicit config id, then a provider/model override (using the user's stored
+ * key for that provider when there is one), then the user's default configuration,
+ * and finally the environment defaults. The user's remaining configurations followed by
+ * LLM_FALLBACK_CHAIN form the fallback chain. In a workspace the workspace's configurations
+ * take the place of the user's, so members call with keys they cannot read.
+ * A config id that no longer resolves, e.g. one stored on a conversation before the
+ * configuration was deleted or disabled, is skipped; requests validate theirs with `findLLMConfig`.
+ */
+export async function resolveLLMOptions(
+  userId: string,
+  selection: LLMSelection = {},
+  workspaceId: string | null = null
+): Promise<ResolvedLLMOptions> {
+  const owner = configOwner(userId, workspaceId);
+  let config = selection.configId ? await findLLMConfig(userId, selection.configId, workspaceId) : null;
+
+  if (!config && selection.provider) {
+    config = await prisma.lLMConfiguration.findFirst({
+      where: {
+        ...owner,
+        provider: selection.provider,
+        isActive: true,
+        ...(selection.model ? { model: selection.model } : {})
+      },
+      orderBy: [{ isDefault: 'desc' }, { updatedAt: 'desc' }]
+    });
+  } else if (!config) {
+    config = await prisma.lLMConfiguration.findFirst({
+      where: { ...owner, isDefault: true, isActive: true }
+    });
+  }
+
+  const fallbacks = [
+    ...(await getUserFallbacks(owner, config?.id)),
+    ...getEnvFallbackChain()
+  ];
+
+  if (!config) {
+    return {
+      provider: selection.provider,
+      model: selection.model,
+      fallbacks
+    };
+  }
+
+  return {
+    configId: config.id,
+    provider: config.provider as LLMProviderName,
+    model: selection.model || config.model,
+    apiKey: decryptSecret(config.apiKey) || undefined,
+    baseUrl: config.baseUrl || undefined,
+    defaults: sanitizeParameters(config.parameters),
+    fallbacks
+  };
+}
+
+// The owner's other active configurations, default first, make up the head of the fallback chain
+async function getUserFallbacks(owner: ReturnType<typeof configOwner>, excludeId?: string): Promise<LLMTarget[]> {
+  const configs = await prisma.lLMConfiguration.findMany({
+    where: {
+      ...owner,
+      isActive: true,
+      ...(excludeId ? { id: { not: excludeId } } : {})
+    },
+    orderBy: [{ isDefault: 'desc' }, { updatedAt: 'desc' }]
+  });
+
+  return configs.reduce<LLMTarget[]>((targets, config) => {
+    if (!isLLMProvider(config.provider)) return targets;
+    try {
+      targets.push({
+        provider: config.provider,
+        model: config.model,
+        apiKey: decryptSecret(config.apiKey) || undefined,
+        baseUrl: config.baseUrl || undefined,
+        defaults: sanitizeParameters(config.parameters)
+      });
+    } catch (error) {
+      console.error(`Skipping LLM configuration ${config.id} in fallback chain:`, error);
+    }
+    return targets;
+  }, []);
+}
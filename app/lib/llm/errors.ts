@@ -0,0 +1,55 @@
+import { LLMProviderName } from './types';
+
+export class LLMError extends Error {
+  provider: LLMProviderName;
+  status?: number;
+  body?: string;
+  // Delay requested by the provider through Retry-After, if any
+  retryAfterMs?: number;
+
+  constructor(message: string, provider: LLMProviderName, status?: number, body?: string, retryAfterMs?: number) {
+    super(message);
+    this.name = 'LLMError';
+    this.provider = provider;
+    this.status = status;
+    this.body = body;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The model kept answering with output that does not match the requested schema
+export class StructuredOutputError extends Error {
+  // Validation problems from the last attempt, and what the model actually returned
+  issues: string[];
+  content: string;
+  attempts: number;
+
+  constructor(message: string, issues: string[], content: string, attempts: number) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.issues = issues;
+    this.content = content;
+    this.attempts = attempts;
+  }
+}
+
+// The caller gave up on the request (e.g. the user pressed stop); never retried or failed over
+export class LLMAbortedError extends Error {
+  constructor(message = 'LLM request was cancelled') {
+    super(message);
+    this.name = 'LLMAbortedError';
+  }
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new LLMAbortedError();
+  }
+}
+
+// Rate limits, server errors and network failures (no status) are worth another try
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof LLMError)) return false;
+  if (error.status === undefined) return true;
+  return error.status === 408 || error.status === 409 || error.status === 429 || error.status >= 500;
+}
@@ -0,0 +1,23 @@
+export * from './types';
+export { LLMError, LLMAbortedError, StructuredOutputError, isRetryableError, throwIfAborted } from './errors';
+export { CircuitBreaker, providerCircuitBreaker } from './circuit-breaker';
+export {
+  LLMClient,
+  llm,
+  LLM_PROVIDERS,
+  isLLMProvider,
+  getDefaultProvider,
+  getProviderApiKey,
+  getEnvFallbackChain,
+  isProviderConfigured,
+  providerRequiresApiKey
+} from './llm-client';
+export type { LLMClientOptions, LLMTarget } from './llm-client';
+export type { MockFixture } from './providers';
+export { getContextWindow, countTokens, countMessageTokens, countToolTokens, tokensToChars } from './tokens';
+export { estimateCost, getModelPrice, getPriceTable } from './pricing';
+export { recordLLMUsage, linkUsageToMessage } from './usage';
+export type { LLMUsageContext } from './usage';
+export { generateStructured, parseJSONContent } from './structured';
+export type { StructuredOutputOptions, StructuredOutputResult } from './structured';
+export { zodToJsonSchema } from './json-schema';
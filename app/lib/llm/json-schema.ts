@@ -0,0 +1,64 @@
+import { ZodFirstPartyTypeKind, ZodTypeAny } from 'zod';
+
+/**
+ * Converts the zod types used for structured output into JSON Schema, the form providers
+ * accept for native response formats. Unsupported types become an unconstrained schema;
+ * validation still happens against the zod schema itself.
+ */
+export function zodToJsonSchema(schema: ZodTypeAny): Record<string, any> {
+  const def = schema._def;
+  const described = (json: Record<string, any>) => (def.description ? { ...json, description: def.description } : json);
+
+  switch (def.typeName as ZodFirstPartyTypeKind) {
+    case ZodFirstPartyTypeKind.ZodString:
+      return described({ type: 'string' });
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const checks: Array<{ kind: string; value?: number; inclusive?: boolean }> = def.checks || [];
+      const json: Record<string, any> = { type: checks.some(check => check.kind === 'int') ? 'integer' : 'number' };
+      checks.forEach(check => {
+        if (check.kind === 'min') json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+        if (check.kind === 'max') json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+      });
+      return described(json);
+    }
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return described({ type: 'boolean' });
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return described({ const: def.value });
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return described({ type: 'string', enum: def.values });
+    case ZodFirstPartyTypeKind.ZodArray:
+      return described({ type: 'array', items: zodToJsonSchema(def.type) });
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return described({ type: 'object', additionalProperties: zodToJsonSchema(def.valueType) });
+    case ZodFirstPartyTypeKind.ZodUnion:
+      return described({ anyOf: def.options.map((option: ZodTypeAny) => zodToJsonSchema(option)) });
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return described({ anyOf: [zodToJsonSchema(def.innerType), { type: 'null' }] });
+    case ZodFirstPartyTypeKind.ZodOptional:
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return described(zodToJsonSchema(def.innerType));
+    case ZodFirstPartyTypeKind.ZodEffects:
+      return described(zodToJsonSchema(def.schema));
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, ZodTypeAny> = def.shape();
+      const properties: Record<string, any> = {};
+      const required: string[] = [];
+
+      Object.entries(shape).forEach(([key, value]) => {
+        properties[key] = zodToJsonSchema(value);
+        if (!value.isOptional() && value._def.typeName !== ZodFirstPartyTypeKind.ZodDefault) {
+          required.push(key);
+        }
+      });
+
+      return described({
+        type: 'object',
+        properties,
+        ...(required.length > 0 ? { required } : {})
+      });
+    }
+    default:
+      return described({});
+  }
+}
@@ -0,0 +1,271 @@
+import { createHash } from 'crypto';
+import { BaseProvider, createProvider } from './providers';
+import { LLMAbortedError, LLMError, isRetryableError, throwIfAborted } from './errors';
+import { CircuitBreaker, providerCircuitBreaker } from './circuit-breaker';
+import { RetryOptions, getRetryDelay, getRetryOptions, sleep } from './retry';
+import { LLMUsageContext, recordLLMUsage } from './usage';
+import {
+  LLMAttemptFailure,
+  LLMGenerationParameters,
+  LLMProviderName,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamChunk
+} from './types';
+
+export const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'anthropic', 'deepseek', 'gemini', 'local', 'mock'];
+
+const PROVIDER_API_KEY_ENV: Partial<Record<LLMProviderName, string>> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  deepseek: 'DEEPSEEK_API_KEY',
+  gemini: 'GEMINI_API_KEY',
+  local: 'LOCAL_LLM_API_KEY'
+};
+
+// Providers that work without an API key
+const KEYLESS_PROVIDERS: LLMProviderName[] = ['local', 'mock'];
+
+export interface LLMTarget {
+  provider: LLMProviderName;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  defaults?: LLMGenerationParameters;
+}
+
+export interface LLMClientOptions extends Partial<LLMTarget> {
+  // Tried in order when the primary provider keeps failing; defaults to LLM_FALLBACK_CHAIN
+  fallbacks?: LLMTarget[];
+  retry?: Partial<RetryOptions>;
+  circuitBreaker?: CircuitBreaker;
+  // Attribution for the usage records written after every successful call
+  usage?: LLMUsageContext;
+}
+
+interface PreparedTarget {
+  provider: BaseProvider;
+  request: LLMRequest & { model: string };
+  // Circuit breaker key: one user's broken key or endpoint must not open the circuit for everyone
+  breakerKey: string;
+}
+
+export function isLLMProvider(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && (LLM_PROVIDERS as string[]).includes(value);
+}
+
+export function getProviderApiKey(provider: LLMProviderName): string | undefined {
+  const envName = PROVIDER_API_KEY_ENV[provider];
+  return (envName && process.env[envName]) || undefined;
+}
+
+export function providerRequiresApiKey(provider: LLMProviderName): boolean {
+  return !KEYLESS_PROVIDERS.includes(provider);
+}
+
+/**
+ * Whether a provider may be picked without being named: hosted providers need their API key
+ * and the local provider needs LOCAL_LLM_BASE_URL. The mock provider is only ever used when
+ * selected explicitly, e.g. with LLM_PROVIDER=mock.
+ */
+export function isProviderConfigured(provider: LLMProviderName): boolean {
+  if (provider === 'mock') return false;
+  if (provider === 'local') return Boolean(process.env.LOCAL_LLM_BASE_URL);
+  return Boolean(getProviderApiKey(provider));
+}
+
+// LLM_PROVIDER wins when set, otherwise the first configured provider
+export function getDefaultProvider(): LLMProviderName | null {
+  if (isLLMProvider(process.env.LLM_PROVIDER)) {
+    return process.env.LLM_PROVIDER;
+  }
+  return LLM_PROVIDERS.find(isProviderConfigured) || null;
+}
+
+/**
+ * Parses LLM_FALLBACK_CHAIN ("anthropic:claude-3-5-sonnet-latest,deepseek"). Without it,
+ * every configured provider is used, in LLM_PROVIDERS order.
+ */
+export function getEnvFallbackChain(): LLMTarget[] {
+  const chain = process.env.LLM_FALLBACK_CHAIN;
+  if (!chain) {
+    return LLM_PROVIDERS.filter(isProviderConfigured).map(provider => ({ provider }));
+  }
+
+  return chain.split(',').reduce<LLMTarget[]>((targets, entry) => {
+    const [provider, ...modelParts] = entry.trim().split(':');
+    if (isLLMProvider(provider)) {
+      targets.push({ provider, model: modelParts.join(':') || undefined });
+    } else if (provider) {
+      console.error(`Ignoring unknown provider in LLM_FALLBACK_CHAIN: ${provider}`);
+    }
+    return targets;
+  }, []);
+}
+
+// The same provider behind another endpoint or key is a separate circuit; keys are only hashed
+function getBreakerKey(provider: LLMProviderName, baseUrl?: string, apiKey?: string): string {
+  const keyHash = apiKey ? createHash('sha256').update(apiKey).digest('hex').slice(0, 16) : '';
+  return `${provider}:${baseUrl || ''}:${keyHash}`;
+}
+
+export class LLMClient {
+  constructor(private options: LLMClientOptions = {}) {}
+
+  // Same client, with calls attributed to the given user, conversation or tool
+  withUsage(context: LLMUsageContext): LLMClient {
+    return new LLMClient({
+      ...this.options,
+      usage: { ...this.options.usage, ...context }
+    });
+  }
+
+  async chat(request: LLMRequest): Promise<LLMResponse> {
+    const retry = getRetryOptions(this.options.retry);
+    const breaker = this.options.circuitBreaker || providerCircuitBreaker;
+    const failures: LLMAttemptFailure[] = [];
+    let attempts = 0;
+
+    for (const target of this.prepareTargets(request)) {
+      const name = target.breakerKey;
+      if (!breaker.canRequest(name)) continue;
+
+      for (let attempt = 0; attempt <= retry.maxRetries; attempt++) {
+        throwIfAborted(request.signal);
+        attempts++;
+        try {
+          const response = await target.provider.chat(target.request);
+          breaker.recordSuccess(name);
+          await recordLLMUsage(target.request, response, this.options.usage);
+          return { ...response, attempts, failures };
+        } catch (error) {
+          // A cancelled request says nothing about the provider's health
+          if (error instanceof LLMAbortedError) throw error;
+          // Bad requests, rejected keys and context overflows say nothing about the provider's health
+          if (isRetryableError(error)) breaker.recordFailure(name);
+          failures.push(this.describeFailure(target, error));
+
+          if (!isRetryableError(error) || attempt === retry.maxRetries || !breaker.canRequest(name)) break;
+          await sleep(getRetryDelay(error, attempt, retry), request.signal);
+        }
+      }
+    }
+
+    throw this.exhaustedError(failures);
+  }
+
+  // Retries and fallbacks only apply until the first chunk is out; after that errors propagate
+  async *stream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+    const retry = getRetryOptions(this.options.retry);
+    const breaker = this.options.circuitBreaker || providerCircuitBreaker;
+    const failures: LLMAttemptFailure[] = [];
+    let attempts = 0;
+
+    for (const target of this.prepareTargets(request)) {
+      const name = target.breakerKey;
+      if (!breaker.canRequest(name)) continue;
+
+      for (let attempt = 0; attempt <= retry.maxRetries; attempt++) {
+        throwIfAborted(request.signal);
+        attempts++;
+        let started = false;
+        try {
+          for await (const chunk of target.provider.stream(target.request)) {
+            started = true;
+            if (chunk.type === 'done') {
+              await recordLLMUsage(target.request, chunk.response, this.options.usage);
+              yield { type: 'done', response: { ...chunk.response, attempts, failures } };
+            } else {
+              yield chunk;
+            }
+          }
+          breaker.recordSuccess(name);
+          return;
+        } catch (error) {
+          if (error instanceof LLMAbortedError) throw error;
+          if (isRetryableError(error)) breaker.recordFailure(name);
+          if (started) throw error;
+          failures.push(this.describeFailure(target, error));
+
+          if (!isRetryableError(error) || attempt === retry.maxRetries || !breaker.canRequest(name)) break;
+          await sleep(getRetryDelay(error, attempt, retry), request.signal);
+        }
+      }
+    }
+
+    throw this.exhaustedError(failures);
+  }
+
+  // The provider and model a request would go to first, e.g. for sizing the context budget
+  getPrimaryTarget(request: Partial<LLMRequest> = {}): { provider: LLMProviderName; model: string } | null {
+    const target = this.prepareTargets({ messages: [], ...request })[0];
+    return target ? { provider: target.provider.name, model: target.request.model } : null;
+  }
+
+  private prepareTargets(request: LLMRequest): PreparedTarget[] {
+    const primaryProvider = request.provider || this.options.provider || getDefaultProvider();
+    if (!primaryProvider) {
+      throw new Error('No LLM provider configured. Set a provider API key, LOCAL_LLM_BASE_URL or LLM_PROVIDER.');
+    }
+
+    // Client-level settings only apply to the provider they were configured for
+    const ownsPrimary = primaryProvider === (this.options.provider || primaryProvider);
+    const primary: LLMTarget = ownsPrimary
+      ? {
+          provider: primaryProvider,
+          model: request.model || this.options.model,
+          apiKey: this.options.apiKey,
+          baseUrl: this.options.baseUrl,
+          defaults: this.options.defaults
+        }
+      : { provider: primaryProvider, model: request.model };
+
+    const targets = [primary, ...(this.options.fallbacks || getEnvFallbackChain())];
+    const seen: Record<string, boolean> = {};
+
+    return targets.reduce<PreparedTarget[]>((prepared, target) => {
+      // The server's own keys never go to an endpoint that came from a user's configuration
+      const apiKey = target.apiKey || (target.baseUrl ? undefined : getProviderApiKey(target.provider));
+      const key = `${target.provider}:${target.model || ''}`;
+      if ((!apiKey && providerRequiresApiKey(target.provider)) || seen[key]) return prepared;
+      seen[key] = true;
+
+      const provider = createProvider(target.provider, { apiKey: apiKey || '', baseUrl: target.baseUrl });
+      prepared.push({
+        provider,
+        breakerKey: getBreakerKey(target.provider, target.baseUrl, apiKey),
+        request: {
+          ...(target.defaults || this.options.defaults),
+          ...request,
+          provider: target.provider,
+          model: target.model || provider.defaultModel
+        }
+      });
+      return prepared;
+    }, []);
+  }
+
+  private describeFailure(target: PreparedTarget, error: unknown): LLMAttemptFailure {
+    return {
+      provider: target.provider.name,
+      model: target.request.model,
+      status: error instanceof LLMError ? error.status : undefined,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+
+  private exhaustedError(failures: LLMAttemptFailure[]): Error {
+    const lastFailure = failures[failures.length - 1];
+    if (!lastFailure) {
+      return new Error('No LLM provider available: every configured provider is missing a key or temporarily disabled');
+    }
+
+    return new LLMError(
+      `All LLM providers failed (last: ${lastFailure.provider} ${lastFailure.error})`,
+      lastFailure.provider,
+      lastFailure.status
+    );
+  }
+}
+
+export const llm = new LLMClient();
@@ -0,0 +1,62 @@
+export interface ModelPrice {
+  // USD per million tokens
+  input: number;
+  output: number;
+}
+
+// Default list prices by model prefix; the longest matching prefix wins.
+// Override or extend with LLM_PRICING, e.g. {"gpt-4o":{"input":2.5,"output":10}}.
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 }
+};
+
+let cachedPrices: Record<string, ModelPrice> | null = null;
+
+export function getPriceTable(): Record<string, ModelPrice> {
+  if (cachedPrices) return cachedPrices;
+
+  let overrides: Record<string, ModelPrice> = {};
+  if (process.env.LLM_PRICING) {
+    try {
+      overrides = JSON.parse(process.env.LLM_PRICING);
+    } catch (error) {
+      console.error('Ignoring invalid LLM_PRICING:', error);
+    }
+  }
+
+  cachedPrices = { ...DEFAULT_PRICES, ...overrides };
+  return cachedPrices;
+}
+
+export function getModelPrice(model: string): ModelPrice | null {
+  const prices = getPriceTable();
+  const prefix = Object.keys(prices)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? prices[prefix] : null;
+}
+
+// Unknown models are recorded at zero cost rather than guessed
+export function estimateCost(model: string, promptTokens: number, completionTokens: number): number {
+  const price = getModelPrice(model);
+  if (!price) return 0;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
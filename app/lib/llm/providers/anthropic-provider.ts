@@ -0,0 +1,187 @@
+import { BaseProvider } from './base-provider';
+import { LLMError } from '../errors';
+import { LLMMessage, LLMProviderName, LLMRequest, LLMResponse, LLMStreamChunk, LLMToolCall } from '../types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const STRUCTURED_OUTPUT_TOOL = 'structured_output';
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: Array<Record<string, any>>;
+}
+
+export class AnthropicProvider extends BaseProvider {
+  name: LLMProviderName = 'anthropic';
+  defaultModel = 'claude-3-sonnet-20240229';
+
+  async chat(request: LLMRequest & { model: string }): Promise<LLMResponse> {
+    const structured = this.usesStructuredOutputTool(request);
+    const data = await this.post(this.endpoint(), this.headers(), this.buildBody(request, structured), request.signal);
+    const blocks: any[] = data.content || [];
+
+    // The forced tool call carries the JSON answer
+    if (structured) {
+      const output = blocks.find(block => block.type === 'tool_use' && block.name === STRUCTURED_OUTPUT_TOOL);
+      if (output) {
+        blocks.splice(0, blocks.length, { type: 'text', text: JSON.stringify(output.input) });
+      }
+    }
+
+    const content = blocks
+      .filter(block => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+    const toolCalls: LLMToolCall[] = blocks
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({ id: block.id, name: block.name, arguments: this.parseToolArguments(block.input) }));
+
+    return {
+      content,
+      provider: this.name,
+      model: data.model || request.model,
+      finishReason: data.stop_reason,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: data.usage ? {
+        promptTokens: data.usage.input_tokens || 0,
+        completionTokens: data.usage.output_tokens || 0,
+        totalTokens: (data.usage.input_tokens || 0) + (data.usage.output_tokens || 0)
+      } : undefined,
+      raw: data
+    };
+  }
+
+  async *stream(request: LLMRequest & { model: string }): AsyncGenerator<LLMStreamChunk> {
+    let content = '';
+    let model = request.model;
+    let finishReason: string | undefined;
+    let promptTokens = 0;
+    let completionTokens = 0;
+    // tool_use blocks stream their input as partial JSON, keyed by content block index
+    const toolBlocks: Record<number, { id: string; name: string; input: string }> = {};
+
+    for await (const event of this.postStream(this.endpoint(), this.headers(), { ...this.buildBody(request), stream: true }, request.signal)) {
+      switch (event.type) {
+        case 'message_start':
+          model = event.message?.model || model;
+          promptTokens = event.message?.usage?.input_tokens || 0;
+          break;
+        case 'content_block_start':
+          if (event.content_block?.type === 'tool_use') {
+            toolBlocks[event.index] = { id: event.content_block.id, name: event.content_block.name, input: '' };
+          }
+          break;
+        case 'content_block_delta':
+          if (event.delta?.type === 'text_delta' && event.delta.text) {
+            content += event.delta.text;
+            yield { type: 'delta', content: event.delta.text };
+          } else if (event.delta?.type === 'input_json_delta' && toolBlocks[event.index]) {
+            toolBlocks[event.index].input += event.delta.partial_json || '';
+          }
+          break;
+        case 'message_delta':
+          finishReason = event.delta?.stop_reason || finishReason;
+          completionTokens = event.usage?.output_tokens || completionTokens;
+          break;
+        case 'error':
+          throw new LLMError(event.error?.message || 'Anthropic stream error', this.name);
+      }
+    }
+
+    const toolCalls: LLMToolCall[] = Object.keys(toolBlocks)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .map(index => ({
+        id: toolBlocks[index].id,
+        name: toolBlocks[index].name,
+        arguments: this.parseToolArguments(toolBlocks[index].input)
+      }));
+
+    yield {
+      type: 'done',
+      response: {
+        content,
+        provider: this.name,
+        model,
+        finishReason,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        usage: {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens
+        }
+      }
+    };
+  }
+
+  private endpoint(): string {
+    return `${this.config.baseUrl || 'https://api.anthropic.com/v1'}/messages`;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'x-api-key': this.config.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION
+    };
+  }
+
+  // Anthropic has no JSON mode; a single forced tool call with the schema as input is the native equivalent
+  private usesStructuredOutputTool(request: LLMRequest): boolean {
+    return Boolean(request.responseFormat && !(request.tools && request.tools.length > 0));
+  }
+
+  private buildBody(request: LLMRequest & { model: string }, structured = false): Record<string, any> {
+    const { system, messages } = this.splitSystemPrompt(request.messages);
+    const hasTools = request.tools && request.tools.length > 0;
+    const structuredTool = structured ? {
+      name: STRUCTURED_OUTPUT_TOOL,
+      description: 'Return the final answer as structured data.',
+      input_schema: request.responseFormat?.schema || { type: 'object' }
+    } : undefined;
+
+    return this.stripUndefined({
+      model: request.model,
+      system,
+      messages: this.toAnthropicMessages(messages),
+      tools: hasTools ? request.tools!.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        input_schema: tool.parameters
+      })) : structuredTool ? [structuredTool] : undefined,
+      tool_choice: hasTools && request.toolChoice
+        ? { type: request.toolChoice }
+        : structuredTool ? { type: 'tool', name: STRUCTURED_OUTPUT_TOOL } : undefined,
+      // max_tokens is mandatory for the Messages API
+      max_tokens: request.maxTokens || 4096,
+      temperature: request.temperature,
+      top_p: request.topP,
+      stop_sequences: request.stop
+    });
+  }
+
+  // Tool results travel as user turns, and the API requires roles to alternate
+  private toAnthropicMessages(messages: LLMMessage[]): AnthropicMessage[] {
+    const converted = messages.map<AnthropicMessage>(msg => {
+      if (msg.role === 'tool') {
+        return {
+          role: 'user',
+          content: [{ type: 'tool_result', tool_use_id: msg.toolCallId, content: msg.content }]
+        };
+      }
+
+      const blocks: Array<Record<string, any>> = [];
+      if (msg.content) {
+        blocks.push({ type: 'text', text: msg.content });
+      }
+      (msg.toolCalls || []).forEach(call => {
+        blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments });
+      });
+
+      return { role: msg.role === 'assistant' ? 'assistant' : 'user', content: blocks };
+    });
+
+    return this.mergeConsecutiveRoles(
+      converted.filter(msg => msg.content.length > 0),
+      (previous, next) => ({ role: previous.role, content: [...previous.content, ...next.content] })
+    );
+  }
+}
@@ -0,0 +1,121 @@
+import { LLMAbortedError, LLMError } from '../errors';
+import { parseRetryAfter } from '../retry';
+import { readServerSentEvents } from '@/lib/sse';
+import { LLMMessage, LLMProviderConfig, LLMProviderName, LLMRequest, LLMResponse, LLMStreamChunk } from '../types';
+
+export abstract class BaseProvider {
+  abstract name: LLMProviderName;
+  abstract defaultModel: string;
+
+  constructor(protected config: LLMProviderConfig) {}
+
+  abstract chat(request: LLMRequest & { model: string }): Promise<LLMResponse>;
+
+  abstract stream(request: LLMRequest & { model: string }): AsyncGenerator<LLMStreamChunk>;
+
+  protected async post(url: string, headers: Record<string, string>, body: Record<string, any>, signal?: AbortSignal): Promise<any> {
+    const response = await this.send(url, headers, body, signal);
+    try {
+      return await response.json();
+    } catch (error) {
+      if (signal?.aborted) throw new LLMAbortedError();
+      throw error;
+    }
+  }
+
+  // Yields the parsed JSON payload of every `data:` event in a streaming response
+  protected async *postStream(url: string, headers: Record<string, string>, body: Record<string, any>, signal?: AbortSignal): AsyncGenerator<any> {
+    const response = await this.send(url, headers, body, signal);
+    if (!response.body) {
+      throw new LLMError(`${this.name} returned an empty stream`, this.name);
+    }
+
+    try {
+      for await (const event of readServerSentEvents(response.body)) {
+        if (event.data === '[DONE]') return;
+        try {
+          yield JSON.parse(event.data);
+        } catch {
+          console.error(`${this.name} sent a malformed stream event:`, event.data);
+        }
+      }
+    } catch (error) {
+      // Aborting the fetch surfaces as a read error on the body
+      if (signal?.aborted) throw new LLMAbortedError();
+      throw error;
+    }
+  }
+
+  private async send(url: string, headers: Record<string, string>, body: Record<string, any>, signal?: AbortSignal): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers
+        },
+        body: JSON.stringify(body),
+        signal
+      });
+    } catch (error) {
+      if (signal?.aborted) throw new LLMAbortedError();
+      throw new LLMError(`${this.name} request failed: ${error instanceof Error ? error.message : 'Unknown error'}`, this.name);
+    }
+
+    if (!response.ok) {
+      const errorBody = await response.text().catch(() => '');
+      throw new LLMError(
+        `LLM API error: ${response.status}`,
+        this.name,
+        response.status,
+        errorBody,
+        parseRetryAfter(response.headers)
+      );
+    }
+
+    return response;
+  }
+
+  // Most providers take the system prompt out of band rather than as a message
+  protected splitSystemPrompt(messages: LLMMessage[]): { system?: string; messages: LLMMessage[] } {
+    const systemParts = messages.filter(msg => msg.role === 'system').map(msg => msg.content);
+    return {
+      system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+      messages: messages.filter(msg => msg.role !== 'system')
+    };
+  }
+
+  // Merge consecutive entries with the same role for providers that require strict alternation
+  protected mergeConsecutiveRoles<T extends { role: string }>(items: T[], merge: (previous: T, next: T) => T): T[] {
+    return items.reduce<T[]>((merged, item) => {
+      const previous = merged[merged.length - 1];
+      if (previous && previous.role === item.role) {
+        merged[merged.length - 1] = merge(previous, item);
+      } else {
+        merged.push(item);
+      }
+      return merged;
+    }, []);
+  }
+
+  protected parseToolArguments(value: unknown): Record<string, any> {
+    if (value && typeof value === 'object') {
+      return value as Record<string, any>;
+    }
+    if (typeof value !== 'string' || !value.trim()) {
+      return {};
+    }
+    try {
+      const parsed = JSON.parse(value);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch {
+      console.error(`${this.name} returned malformed tool arguments:`, value);
+      return {};
+    }
+  }
+
+  protected stripUndefined<T extends Record<string, any>>(body: T): T {
+    return Object.fromEntries(Object.entries(body).filter(([, value]) => value !== undefined)) as T;
+  }
+}
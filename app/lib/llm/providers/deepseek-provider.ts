@@ -0,0 +1,10 @@
+import { OpenAIProvider } from './openai-provider';
+import { LLMProviderName } from '../types';
+
+// DeepSeek exposes an OpenAI-compatible chat completions API
+export class DeepSeekProvider extends OpenAIProvider {
+  name: LLMProviderName = 'deepseek';
+  defaultModel = 'deepseek-chat';
+  protected defaultBaseUrl = 'https://api.deepseek.com/v1';
+  protected supportsJsonSchema = false;
+}
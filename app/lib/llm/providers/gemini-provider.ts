@@ -0,0 +1,166 @@
+import { BaseProvider } from './base-provider';
+import { generateId } from '@/lib/utils';
+import { LLMMessage, LLMProviderName, LLMRequest, LLMResponse, LLMStreamChunk, LLMToolCall, LLMUsage } from '../types';
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: Array<Record<string, any>>;
+}
+
+export class GeminiProvider extends BaseProvider {
+  name: LLMProviderName = 'gemini';
+  defaultModel = 'gemini-1.5-pro';
+
+  async chat(request: LLMRequest & { model: string }): Promise<LLMResponse> {
+    const data = await this.post(this.endpoint(request.model, 'generateContent'), this.headers(), this.buildBody(request), request.signal);
+    const candidate = data.candidates?.[0];
+    const toolCalls = this.extractToolCalls(candidate);
+
+    return {
+      content: this.extractText(candidate),
+      provider: this.name,
+      model: data.modelVersion || request.model,
+      finishReason: candidate?.finishReason,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: this.parseUsage(data.usageMetadata),
+      raw: data
+    };
+  }
+
+  async *stream(request: LLMRequest & { model: string }): AsyncGenerator<LLMStreamChunk> {
+    const url = `${this.endpoint(request.model, 'streamGenerateContent')}?alt=sse`;
+
+    let content = '';
+    let model = request.model;
+    let finishReason: string | undefined;
+    let usage: LLMUsage | undefined;
+    const toolCalls: LLMToolCall[] = [];
+
+    for await (const chunk of this.postStream(url, this.headers(), this.buildBody(request), request.signal)) {
+      const candidate = chunk.candidates?.[0];
+      model = chunk.modelVersion || model;
+      finishReason = candidate?.finishReason || finishReason;
+      usage = this.parseUsage(chunk.usageMetadata) || usage;
+      toolCalls.push(...this.extractToolCalls(candidate));
+
+      const delta = this.extractText(candidate);
+      if (delta) {
+        content += delta;
+        yield { type: 'delta', content: delta };
+      }
+    }
+
+    yield {
+      type: 'done',
+      response: {
+        content,
+        provider: this.name,
+        model,
+        finishReason,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        usage
+      }
+    };
+  }
+
+  private endpoint(model: string, method: string): string {
+    const baseUrl = this.config.baseUrl || 'https://generativelanguage.googleapis.com/v1beta';
+    return `${baseUrl}/models/${encodeURIComponent(model)}:${method}`;
+  }
+
+  private headers(): Record<string, string> {
+    return { 'x-goog-api-key': this.config.apiKey };
+  }
+
+  private buildBody(request: LLMRequest & { model: string }): Record<string, any> {
+    const { system, messages } = this.splitSystemPrompt(request.messages);
+    const hasTools = request.tools && request.tools.length > 0;
+
+    return this.stripUndefined({
+      systemInstruction: system ? { parts: [{ text: system }] } : undefined,
+      contents: this.toGeminiContents(messages),
+      tools: hasTools ? [{
+        functionDeclarations: request.tools!.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters
+        }))
+      }] : undefined,
+      toolConfig: hasTools && request.toolChoice ? {
+        functionCallingConfig: { mode: request.toolChoice === 'none' ? 'NONE' : 'AUTO' }
+      } : undefined,
+      generationConfig: this.stripUndefined({
+        temperature: request.temperature,
+        maxOutputTokens: request.maxTokens,
+        topP: request.topP,
+        frequencyPenalty: request.frequencyPenalty,
+        presencePenalty: request.presencePenalty,
+        stopSequences: request.stop,
+        // JSON mode cannot be combined with function calling
+        responseMimeType: request.responseFormat && !hasTools ? 'application/json' : undefined
+      })
+    });
+  }
+
+  private toGeminiContents(messages: LLMMessage[]): GeminiContent[] {
+    const converted = messages.map<GeminiContent>(msg => {
+      if (msg.role === 'tool') {
+        return {
+          role: 'user',
+          parts: [{ functionResponse: { name: msg.name, response: this.toFunctionResponse(msg.content) } }]
+        };
+      }
+
+      const parts: Array<Record<string, any>> = [];
+      if (msg.content) {
+        parts.push({ text: msg.content });
+      }
+      (msg.toolCalls || []).forEach(call => {
+        parts.push({ functionCall: { name: call.name, args: call.arguments } });
+      });
+
+      return { role: msg.role === 'assistant' ? 'model' : 'user', parts };
+    });
+
+    return this.mergeConsecutiveRoles(
+      converted.filter(content => content.parts.length > 0),
+      (previous, next) => ({ role: previous.role, parts: [...previous.parts, ...next.parts] })
+    );
+  }
+
+  // functionResponse.response must be a JSON object
+  private toFunctionResponse(content: string): Record<string, any> {
+    try {
+      const parsed = JSON.parse(content);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : { result: parsed };
+    } catch {
+      return { result: content };
+    }
+  }
+
+  private extractText(candidate: any): string {
+    return (candidate?.content?.parts || [])
+      .map((part: any) => part.text || '')
+      .join('');
+  }
+
+  // Gemini does not assign ids to function calls, so we mint our own
+  private extractToolCalls(candidate: any): LLMToolCall[] {
+    return (candidate?.content?.parts || [])
+      .filter((part: any) => part.functionCall)
+      .map((part: any) => ({
+        id: `call_${generateId()}`,
+        name: part.functionCall.name,
+        arguments: this.parseToolArguments(part.functionCall.args)
+      }));
+  }
+
+  private parseUsage(usage: any): LLMUsage | undefined {
+    if (!usage) return undefined;
+    return {
+      promptTokens: usage.promptTokenCount || 0,
+      completionTokens: usage.candidatesTokenCount || 0,
+      totalTokens: usage.totalTokenCount || 0
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { BaseProvider } from './base-provider';
+import { OpenAIProvider } from './openai-provider';
+import { AnthropicProvider } from './anthropic-provider';
+import { DeepSeekProvider } from './deepseek-provider';
+import { GeminiProvider } from './gemini-provider';
+import { LocalProvider } from './local-provider';
+import { MockProvider } from './mock-provider';
+import { LLMProviderConfig, LLMProviderName } from '../types';
+
+export { BaseProvider, OpenAIProvider, AnthropicProvider, DeepSeekProvider, GeminiProvider, LocalProvider, MockProvider };
+export type { MockFixture } from './mock-provider';
+
+export function createProvider(name: LLMProviderName, config: LLMProviderConfig): BaseProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider(config);
+    case 'anthropic':
+      return new AnthropicProvider(config);
+    case 'deepseek':
+      return new DeepSeekProvider(config);
+    case 'gemini':
+      return new GeminiProvider(config);
+    case 'local':
+      return new LocalProvider(config);
+    case 'mock':
+      return new MockProvider(config);
+    default:
+      throw new Error(`Unsupported LLM provider: ${name}`);
+  }
+}
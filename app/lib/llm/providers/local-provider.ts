@@ -0,0 +1,14 @@
+import { OpenAIProvider } from './openai-provider';
+import { LLMProviderName } from '../types';
+
+// Any server exposing the OpenAI chat completions API, e.g. Ollama, llama.cpp or vLLM
+export class LocalProvider extends OpenAIProvider {
+  name: LLMProviderName = 'local';
+  defaultModel = process.env.LOCAL_LLM_MODEL || 'llama3.1';
+  protected defaultBaseUrl = process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1';
+
+  // Most local servers run without authentication
+  protected headers(): Record<string, string> {
+    return this.config.apiKey ? super.headers() : {};
+  }
+}
@@ -0,0 +1,70 @@
+import { MockFixture } from './mock-provider';
+
+/**
+ * Built-in fixtures, consulted after any loaded from LLM_MOCK_FIXTURES. They cover the
+ * prompts the tools send and let a chat trigger each tool with a short command, e.g.
+ * "search: solar panels" or "browse: http://localhost:3000".
+ */
+export const DEFAULT_MOCK_FIXTURES: MockFixture[] = [
+  {
+    match: { system: 'comprehensive research assistant', user: 'Research this query comprehensively: "([\\s\\S]*)"' },
+    content: {
+      summary: 'Mock research summary for "{{1}}". This is canned output from the mock LLM provider.',
+      sources: [
+        {
+          title: 'Mock source: {{1}}',
+          url: 'https://example.com/mock-source',
+          snippet: 'A canned snippet about {{1}}.',
+          domain: 'example.com',
+          credibility_score: 0.9
+        }
+      ]
+    }
+  },
+  {
+    match: { system: 'web content analyst', user: 'Web page URL: (\\S+)' },
+    content: 'Mock analysis of {{1}}: the page was fetched and its content summarized by the mock provider.'
+  },
+  {
+    match: { system: 'expert file analyst', user: 'Extract and organize' },
+    content: {
+      document_type: 'mock document',
+      summary: 'Mock extraction: the file was read and its key data extracted by the mock provider.',
+      key_points: ['Mock key point'],
+      entities: [{ name: 'Example Corp', type: 'organization' }],
+      data_points: [{ label: 'Mock figure', value: '42' }],
+      dates: []
+    }
+  },
+  {
+    match: { system: 'expert file analyst' },
+    content: 'Mock file analysis: the file was read and summarized by the mock provider.'
+  },
+  {
+    match: { system: 'running summary of a conversation' },
+    content: 'Mock summary of the earlier conversation.'
+  },
+  {
+    match: { user: '^search:\\s*([\\s\\S]+)' },
+    toolCalls: [{ name: 'deep_search', arguments: { query: '{{1}}', max_sources: 3 } }]
+  },
+  {
+    match: { user: '^browse:\\s*(\\S+)' },
+    toolCalls: [{ name: 'web_browsing', arguments: { url: '{{1}}' } }]
+  },
+  {
+    match: { user: '^file:\\s*(\\S+)' },
+    toolCalls: [{ name: 'file_processing', arguments: { file_path: '{{1}}' } }]
+  },
+  {
+    match: { user: '^python:\\s*([\\s\\S]+)' },
+    toolCalls: [{ name: 'python_execution', arguments: { code: '{{1}}' } }]
+  },
+  {
+    match: { afterTool: '*' },
+    content: 'Mock answer based on the {{tool}} results.'
+  },
+  {
+    content: 'Mock response to: {{user}}'
+  }
+];
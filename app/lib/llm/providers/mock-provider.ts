@@ -0,0 +1,151 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { BaseProvider } from './base-provider';
+import { DEFAULT_MOCK_FIXTURES } from './mock-fixtures';
+import { LLMError, throwIfAborted } from '../errors';
+import { sleep } from '../retry';
+import { LLMProviderName, LLMRequest, LLMResponse, LLMStreamChunk, LLMToolCall, LLMUsage } from '../types';
+
+export interface MockFixture {
+  // Every condition given must hold; a fixture without conditions always applies
+  match?: {
+    // Regex tested against the latest user message; its groups are available as {{1}}, {{2}}...
+    user?: string;
+    // Regex tested against the combined system prompt
+    system?: string;
+    // Applies only right after a result from this tool ('*' for any). Without it the fixture
+    // applies only when the last message is not a tool result, so tool calls cannot loop.
+    afterTool?: string;
+    model?: string;
+  };
+  // Objects and arrays are sent as JSON
+  content?: string | Record<string, any> | any[];
+  // Skipped when the request offers no tools or disables them
+  toolCalls?: Array<{ name: string; arguments?: Record<string, any> }>;
+  finishReason?: string;
+  usage?: LLMUsage;
+  // Fails the call instead, e.g. to exercise retries and fallbacks
+  error?: { status: number; message?: string };
+}
+
+const fixtureCache: Record<string, MockFixture[]> = {};
+
+// Fixtures from the JSON file at LLM_MOCK_FIXTURES (an array, or { "fixtures": [...] }) take precedence
+function loadFixtures(): MockFixture[] {
+  const file = process.env.LLM_MOCK_FIXTURES;
+  if (!file) return DEFAULT_MOCK_FIXTURES;
+
+  if (!fixtureCache[file]) {
+    try {
+      const parsed = JSON.parse(readFileSync(path.resolve(process.cwd(), file), 'utf-8'));
+      const fixtures = Array.isArray(parsed) ? parsed : parsed.fixtures;
+      fixtureCache[file] = Array.isArray(fixtures) ? fixtures : [];
+    } catch (error) {
+      console.error(`Failed to load mock LLM fixtures from ${file}:`, error);
+      fixtureCache[file] = [];
+    }
+  }
+
+  return [...fixtureCache[file], ...DEFAULT_MOCK_FIXTURES];
+}
+
+/**
+ * Scripted provider for offline development: every request is answered by the first
+ * matching fixture, so the same conversation always produces the same replies and tool calls.
+ */
+export class MockProvider extends BaseProvider {
+  name: LLMProviderName = 'mock';
+  defaultModel = 'mock';
+
+  async chat(request: LLMRequest & { model: string }): Promise<LLMResponse> {
+    throwIfAborted(request.signal);
+    return this.respond(request);
+  }
+
+  async *stream(request: LLMRequest & { model: string }): AsyncGenerator<LLMStreamChunk> {
+    const response = this.respond(request);
+    const delay = parseInt(process.env.LLM_MOCK_CHUNK_DELAY_MS || '0', 10);
+
+    // Word-sized chunks, with the whitespace kept so they concatenate back exactly
+    const chunks = response.content.match(/\S+\s*|\s+/g) || [];
+    for (const chunk of chunks) {
+      if (delay > 0) await sleep(delay, request.signal);
+      throwIfAborted(request.signal);
+      yield { type: 'delta', content: chunk };
+    }
+
+    yield { type: 'done', response };
+  }
+
+  private respond(request: LLMRequest & { model: string }): LLMResponse {
+    const messages = request.messages;
+    const lastMessage = messages[messages.length - 1];
+    const lastUser = [...messages].reverse().find(msg => msg.role === 'user');
+    const system = this.splitSystemPrompt(messages).system || '';
+    const lastTool = lastMessage?.role === 'tool' ? lastMessage.name || '' : undefined;
+    const toolsEnabled = Boolean(request.tools && request.tools.length > 0 && request.toolChoice !== 'none');
+
+    let captures: string[] = [];
+    const fixture = loadFixtures().find(candidate => {
+      const match = candidate.match || {};
+      if (candidate.toolCalls && candidate.toolCalls.length > 0 && !toolsEnabled) return false;
+      if (match.afterTool ? lastTool === undefined || (match.afterTool !== '*' && match.afterTool !== lastTool) : lastTool !== undefined) return false;
+      if (match.model && match.model !== request.model) return false;
+      if (match.system && !new RegExp(match.system, 'i').test(system)) return false;
+      if (match.user) {
+        const result = new RegExp(match.user, 'i').exec(lastUser?.content || '');
+        if (!result) return false;
+        captures = Array.from(result);
+      } else {
+        captures = [];
+      }
+      return true;
+    });
+
+    if (!fixture) {
+      throw new LLMError('No mock fixture matched the request', this.name, 400);
+    }
+    if (fixture.error) {
+      throw new LLMError(fixture.error.message || `Mock error: ${fixture.error.status}`, this.name, fixture.error.status);
+    }
+
+    const variables: Record<string, string> = { user: lastUser?.content || '', tool: lastTool || '' };
+    captures.forEach((value, index) => {
+      variables[String(index)] = value || '';
+    });
+
+    const content = fixture.content === undefined ? '' : this.render(fixture.content, variables);
+    // Ids only need to be unique within the exchange, so derive them from its position
+    const round = messages.filter(msg => msg.role === 'tool').length;
+    const toolCalls: LLMToolCall[] = (fixture.toolCalls || []).map((call, index) => ({
+      id: `call_mock_${round}_${index}`,
+      name: call.name,
+      arguments: this.render(call.arguments || {}, variables)
+    }));
+
+    return {
+      content: typeof content === 'string' ? content : JSON.stringify(content, null, 2),
+      provider: this.name,
+      model: request.model,
+      finishReason: fixture.finishReason || (toolCalls.length > 0 ? 'tool_calls' : 'stop'),
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: fixture.usage
+    };
+  }
+
+  // Substitutes {{name}} placeholders in strings, recursing into objects and arrays
+  private render<T>(value: T, variables: Record<string, string>): T {
+    if (typeof value === 'string') {
+      return value.replace(/\{\{(\w+)\}\}/g, (placeholder, name) => variables[name] ?? placeholder) as unknown as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.render(item, variables)) as unknown as T;
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.render(item, variables)])
+      ) as T;
+    }
+    return value;
+  }
+}
@@ -0,0 +1,166 @@
+import { BaseProvider } from './base-provider';
+import { generateId } from '@/lib/utils';
+import { LLMMessage, LLMProviderName, LLMRequest, LLMResponse, LLMStreamChunk, LLMToolCall, LLMUsage } from '../types';
+
+export class OpenAIProvider extends BaseProvider {
+  name: LLMProviderName = 'openai';
+  defaultModel = 'gpt-4';
+  protected defaultBaseUrl = 'https://api.openai.com/v1';
+  // Whether `response_format` accepts a JSON schema rather than only plain JSON mode
+  protected supportsJsonSchema = true;
+
+  async chat(request: LLMRequest & { model: string }): Promise<LLMResponse> {
+    const data = await this.post(this.endpoint(), this.headers(), this.buildBody(request), request.signal);
+    const choice = data.choices?.[0];
+    const toolCalls = (choice?.message?.tool_calls || []).map((call: any) => this.parseToolCall(call));
+
+    return {
+      content: choice?.message?.content || '',
+      provider: this.name,
+      model: data.model || request.model,
+      finishReason: choice?.finish_reason,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: this.parseUsage(data.usage),
+      raw: data
+    };
+  }
+
+  async *stream(request: LLMRequest & { model: string }): AsyncGenerator<LLMStreamChunk> {
+    const body = {
+      ...this.buildBody(request),
+      stream: true,
+      stream_options: { include_usage: true }
+    };
+
+    let content = '';
+    let model = request.model;
+    let finishReason: string | undefined;
+    let usage: LLMUsage | undefined;
+    // Tool call fragments arrive keyed by index and have to be stitched back together
+    const partialToolCalls: Record<number, { id: string; name: string; arguments: string }> = {};
+
+    for await (const chunk of this.postStream(this.endpoint(), this.headers(), body, request.signal)) {
+      model = chunk.model || model;
+      usage = this.parseUsage(chunk.usage) || usage;
+
+      const choice = chunk.choices?.[0];
+      finishReason = choice?.finish_reason || finishReason;
+
+      (choice?.delta?.tool_calls || []).forEach((fragment: any) => {
+        const partial = partialToolCalls[fragment.index] || { id: '', name: '', arguments: '' };
+        partial.id = fragment.id || partial.id;
+        partial.name += fragment.function?.name || '';
+        partial.arguments += fragment.function?.arguments || '';
+        partialToolCalls[fragment.index] = partial;
+      });
+
+      const delta = choice?.delta?.content;
+      if (delta) {
+        content += delta;
+        yield { type: 'delta', content: delta };
+      }
+    }
+
+    const toolCalls: LLMToolCall[] = Object.keys(partialToolCalls)
+      .map(Number)
+      .sort((a, b) => a - b)
+      .map(index => ({
+        id: partialToolCalls[index].id || `call_${generateId()}`,
+        name: partialToolCalls[index].name,
+        arguments: this.parseToolArguments(partialToolCalls[index].arguments)
+      }));
+
+    yield {
+      type: 'done',
+      response: {
+        content,
+        provider: this.name,
+        model,
+        finishReason,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+        usage
+      }
+    };
+  }
+
+  protected endpoint(): string {
+    return `${this.config.baseUrl || this.defaultBaseUrl}/chat/completions`;
+  }
+
+  protected headers(): Record<string, string> {
+    return { 'Authorization': `Bearer ${this.config.apiKey}` };
+  }
+
+  protected buildBody(request: LLMRequest & { model: string }): Record<string, any> {
+    const hasTools = request.tools && request.tools.length > 0;
+
+    return this.stripUndefined({
+      model: request.model,
+      messages: request.messages.map(msg => this.toOpenAIMessage(msg)),
+      tools: hasTools ? request.tools!.map(tool => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters
+        }
+      })) : undefined,
+      tool_choice: hasTools ? request.toolChoice : undefined,
+      response_format: this.buildResponseFormat(request),
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      top_p: request.topP,
+      frequency_penalty: request.frequencyPenalty,
+      presence_penalty: request.presencePenalty,
+      stop: request.stop
+    });
+  }
+
+  private buildResponseFormat(request: LLMRequest): Record<string, any> | undefined {
+    const format = request.responseFormat;
+    if (!format) return undefined;
+
+    if (format.schema && this.supportsJsonSchema) {
+      return { type: 'json_schema', json_schema: { name: format.name || 'response', schema: format.schema } };
+    }
+    return { type: 'json_object' };
+  }
+
+  private toOpenAIMessage(msg: LLMMessage): Record<string, any> {
+    if (msg.role === 'tool') {
+      return { role: 'tool', tool_call_id: msg.toolCallId, content: msg.content };
+    }
+
+    if (msg.role === 'assistant' && msg.toolCalls && msg.toolCalls.length > 0) {
+      return {
+        role: 'assistant',
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+        }))
+      };
+    }
+
+    return { role: msg.role, content: msg.content };
+  }
+
+  private parseToolCall(call: any): LLMToolCall {
+    return {
+      // Some OpenAI-compatible servers leave tool call ids out
+      id: call.id || `call_${generateId()}`,
+      name: call.function?.name || '',
+      arguments: this.parseToolArguments(call.function?.arguments)
+    };
+  }
+
+  private parseUsage(usage: any): LLMUsage | undefined {
+    if (!usage) return undefined;
+    return {
+      promptTokens: usage.prompt_tokens || 0,
+      completionTokens: usage.completion_tokens || 0,
+      totalTokens: usage.total_tokens || 0
+    };
+  }
+}
@@ -0,0 +1,66 @@
+import { LLMAbortedError, LLMError } from './errors';
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export function getRetryOptions(overrides: Partial<RetryOptions> = {}): RetryOptions {
+  return {
+    maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '2', 10),
+    baseDelayMs: parseInt(process.env.LLM_RETRY_BASE_DELAY_MS || '500', 10),
+    maxDelayMs: parseInt(process.env.LLM_RETRY_MAX_DELAY_MS || '10000', 10),
+    ...overrides
+  };
+}
+
+// Parses a Retry-After header, which is either a number of seconds or an HTTP date
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const retryAfterMs = headers.get('retry-after-ms');
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = headers.get('retry-after');
+  if (!retryAfter) return undefined;
+
+  if (!isNaN(Number(retryAfter))) {
+    return Number(retryAfter) * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with full jitter. A Retry-After from the provider takes precedence,
+ * capped at maxDelayMs so one provider cannot stall the whole fallback chain.
+ */
+export function getRetryDelay(error: unknown, attempt: number, options: RetryOptions): number {
+  if (error instanceof LLMError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, options.maxDelayMs);
+  }
+
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt));
+  return Math.round(Math.random() * exponential);
+}
+
+// Rejects with LLMAbortedError as soon as the signal fires instead of waiting out the delay
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new LLMAbortedError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new LLMAbortedError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,153 @@
+import { ZodError, ZodType, ZodTypeDef } from 'zod';
+import { LLMError, StructuredOutputError } from './errors';
+import { zodToJsonSchema } from './json-schema';
+import { LLMMessage, LLMRequest, LLMResponse } from './types';
+import type { LLMClient } from './llm-client';
+
+const DEFAULT_MAX_REPAIRS = parseInt(process.env.LLM_STRUCTURED_MAX_REPAIRS || '2', 10);
+
+export interface StructuredOutputOptions {
+  // Schema name passed to providers that support named response formats
+  name?: string;
+  // Follow-up requests made after the first answer fails validation
+  maxRepairs?: number;
+}
+
+export interface StructuredOutputResult<T> {
+  data: T;
+  response: LLMResponse;
+  // Repair requests it took to get valid output; 0 when the first answer was valid
+  repairs: number;
+}
+
+/**
+ * Pulls a JSON value out of a model answer, tolerating code fences, prose around the JSON
+ * and trailing commas, which are only removed when the JSON does not parse as is.
+ */
+export function parseJSONContent(content: string): unknown {
+  let text = content.trim();
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    text = fenced[1].trim();
+  }
+
+  const start = text.search(/[{[]/);
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+  if (start >= 0 && end > start) {
+    text = text.slice(start, end + 1);
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const repaired = stripTrailingCommas(text);
+    if (repaired === text) throw error;
+    return JSON.parse(repaired);
+  }
+}
+
+// Drops commas right before a closing bracket, leaving string contents as they are
+function stripTrailingCommas(text: string): string {
+  let result = '';
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') {
+        result += char + (text[i + 1] ?? '');
+        i++;
+        continue;
+      }
+      if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === ',' && /^\s*[}\]]/.test(text.slice(i + 1))) {
+      continue;
+    }
+    result += char;
+  }
+  return result;
+}
+
+function formatIssues(error: ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+}
+
+/**
+ * Asks the model for JSON matching `schema` and validates the answer. The provider's native
+ * JSON mode is used where there is one, and the schema is spelled out in the prompt for the
+ * rest. Invalid answers are sent back with the validation errors for a bounded number of
+ * repair attempts before a StructuredOutputError is thrown.
+ */
+export async function generateStructured<T>(
+  llm: LLMClient,
+  request: LLMRequest,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  options: StructuredOutputOptions = {}
+): Promise<StructuredOutputResult<T>> {
+  const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+  const jsonSchema = zodToJsonSchema(schema);
+  const instruction = `Respond with a single JSON value, and nothing else, that matches this JSON Schema:\n${JSON.stringify(jsonSchema)}`;
+
+  const messages: LLMMessage[] = [...request.messages];
+  const systemIndex = messages.findIndex(msg => msg.role === 'system');
+  if (systemIndex >= 0) {
+    messages[systemIndex] = { ...messages[systemIndex], content: `${messages[systemIndex].content}\n\n${instruction}` };
+  } else {
+    messages.unshift({ role: 'system', content: instruction });
+  }
+
+  let nativeMode = true;
+  let issues: string[] = [];
+  let response: LLMResponse | undefined;
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    try {
+      response = await llm.chat({
+        ...request,
+        messages,
+        responseFormat: nativeMode ? { type: 'json', schema: jsonSchema, name: options.name } : undefined
+      });
+    } catch (error) {
+      // Some models reject response formats outright; the prompt alone still asks for JSON
+      if (nativeMode && error instanceof LLMError && error.status === 400) {
+        nativeMode = false;
+        attempt--;
+        continue;
+      }
+      throw error;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = parseJSONContent(response.content);
+    } catch (error) {
+      issues = [`The answer is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`];
+      parsed = undefined;
+    }
+
+    if (parsed !== undefined) {
+      const validation = schema.safeParse(parsed);
+      if (validation.success) {
+        return { data: validation.data, response, repairs: attempt };
+      }
+      issues = formatIssues(validation.error);
+    }
+
+    messages.push(
+      { role: 'assistant', content: response.content },
+      {
+        role: 'user',
+        content: `Your previous answer did not match the required schema:\n${issues.map(issue => `- ${issue}`).join('\n')}\n\nReply again with only the corrected JSON.`
+      }
+    );
+  }
+
+  throw new StructuredOutputError(
+    `LLM output did not match the schema after ${maxRepairs + 1} attempts`,
+    issues,
+    response?.content || '',
+    maxRepairs + 1
+  );
+}
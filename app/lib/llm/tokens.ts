@@ -0,0 +1,67 @@
+import { LLMMessage, LLMProviderName, LLMToolDefinition } from './types';
+
+// Context windows by model prefix; the longest matching prefix wins
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-4o': 128000,
+  'gpt-4.1': 1047576,
+  'gpt-4-turbo': 128000,
+  'gpt-4-32k': 32768,
+  'gpt-4': 8192,
+  'gpt-3.5-turbo': 16385,
+  'o1': 200000,
+  'o3': 200000,
+  'claude': 200000,
+  'deepseek': 64000,
+  'gemini-1.5-flash': 1048576,
+  'gemini-1.5-pro': 2097152,
+  'gemini-2': 1048576,
+  'gemini': 32768
+};
+
+const DEFAULT_CONTEXT_WINDOW = 8192;
+
+// Average characters per token for each provider's tokenizer on mixed English and code
+const CHARS_PER_TOKEN: Record<LLMProviderName, number> = {
+  openai: 4,
+  anthropic: 3.5,
+  deepseek: 3.5,
+  gemini: 4,
+  local: 4,
+  mock: 4
+};
+
+// Role markers and separators every message costs on top of its content
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export function getContextWindow(model: string): number {
+  const prefix = Object.keys(MODEL_CONTEXT_WINDOWS)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? MODEL_CONTEXT_WINDOWS[prefix] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Estimates token counts without shipping each provider's tokenizer. Estimates err on the
+ * high side so that budgets computed from them stay within the real limit.
+ */
+export function countTokens(text: string, provider: LLMProviderName = 'openai'): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / CHARS_PER_TOKEN[provider]);
+}
+
+// Roughly how many characters fit in a token budget, e.g. for truncating text to fit
+export function tokensToChars(tokens: number, provider: LLMProviderName = 'openai'): number {
+  return Math.floor(tokens * CHARS_PER_TOKEN[provider]);
+}
+
+export function countMessageTokens(messages: LLMMessage[], provider: LLMProviderName = 'openai'): number {
+  return messages.reduce((total, msg) => {
+    const toolCalls = msg.toolCalls ? JSON.stringify(msg.toolCalls) : '';
+    return total + MESSAGE_OVERHEAD_TOKENS + countTokens(msg.content, provider) + countTokens(toolCalls, provider);
+  }, 0);
+}
+
+export function countToolTokens(tools: LLMToolDefinition[] = [], provider: LLMProviderName = 'openai'): number {
+  return tools.length > 0 ? countTokens(JSON.stringify(tools), provider) : 0;
+}
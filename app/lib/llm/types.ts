@@ -0,0 +1,93 @@
+// Shared types for the LLM client and its provider adapters
+
+// 'local' is any OpenAI-compatible server; 'mock' replays fixtures for offline development
+export type LLMProviderName = 'openai' | 'anthropic' | 'deepseek' | 'gemini' | 'local' | 'mock';
+
+export type LLMRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string;
+  // Set on assistant messages that requested tool runs
+  toolCalls?: LLMToolCall[];
+  // Set on tool messages: the call being answered and the tool that produced the result
+  toolCallId?: string;
+  name?: string;
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema describing the tool arguments
+  parameters: Record<string, any>;
+}
+
+export interface LLMGenerationParameters {
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  stop?: string[];
+}
+
+export interface LLMRequest extends LLMGenerationParameters {
+  messages: LLMMessage[];
+  provider?: LLMProviderName;
+  model?: string;
+  tools?: LLMToolDefinition[];
+  // 'none' keeps the tool definitions visible but forces a plain text answer
+  toolChoice?: 'auto' | 'none';
+  // Asks for a JSON answer using the provider's native mode where it has one
+  responseFormat?: LLMResponseFormat;
+  // Aborting it cancels the HTTP request to the provider and any pending retry or fallback
+  signal?: AbortSignal;
+}
+
+export interface LLMResponseFormat {
+  type: 'json';
+  // JSON Schema the answer should follow, for providers that can enforce one
+  schema?: Record<string, any>;
+  name?: string;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMResponse {
+  content: string;
+  provider: LLMProviderName;
+  model: string;
+  finishReason?: string;
+  toolCalls?: LLMToolCall[];
+  usage?: LLMUsage;
+  // Total attempts across retries and fallbacks, and the failures that preceded this answer
+  attempts?: number;
+  failures?: LLMAttemptFailure[];
+  raw?: any;
+}
+
+export interface LLMAttemptFailure {
+  provider: LLMProviderName;
+  model: string;
+  status?: number;
+  error: string;
+}
+
+export type LLMStreamChunk =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; response: LLMResponse };
+
+export interface LLMProviderConfig {
+  apiKey: string;
+  baseUrl?: string;
+}
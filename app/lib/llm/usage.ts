@@ -0,0 +1,56 @@
+import { prisma } from '@/lib/db';
+import { estimateCost } from './pricing';
+import { countMessageTokens, countTokens } from './tokens';
+import { LLMRequest, LLMResponse } from './types';
+
+export interface LLMUsageContext {
+  userId?: string;
+  conversationId?: string;
+  requestId?: string;
+  tool?: string;
+  purpose?: 'chat' | 'summary' | 'tool';
+}
+
+/**
+ * Stores token counts and estimated cost for one LLM call. When the provider reports no
+ * usage (some streaming endpoints), counts are estimated and flagged as such.
+ */
+export async function recordLLMUsage(request: LLMRequest, response: LLMResponse, context: LLMUsageContext = {}) {
+  const isEstimated = !response.usage;
+  const promptTokens = response.usage?.promptTokens ?? countMessageTokens(request.messages, response.provider);
+  const completionTokens = response.usage?.completionTokens ?? countTokens(response.content, response.provider);
+
+  try {
+    await prisma.lLMUsage.create({
+      data: {
+        userId: context.userId,
+        conversationId: context.conversationId,
+        requestId: context.requestId,
+        tool: context.tool,
+        purpose: context.purpose || (context.tool ? 'tool' : 'chat'),
+        provider: response.provider,
+        model: response.model,
+        promptTokens,
+        completionTokens,
+        totalTokens: response.usage?.totalTokens || promptTokens + completionTokens,
+        cost: estimateCost(response.model, promptTokens, completionTokens),
+        isEstimated
+      }
+    });
+  } catch (error) {
+    // Accounting must never break the call it describes
+    console.error('Failed to record LLM usage:', error);
+  }
+}
+
+// Attributes every call made while serving a request to the assistant message it produced
+export async function linkUsageToMessage(requestId: string, messageId: string) {
+  try {
+    await prisma.lLMUsage.updateMany({
+      where: { requestId },
+      data: { messageId }
+    });
+  } catch (error) {
+    console.error('Failed to link LLM usage to message:', error);
+  }
+}
@@ -0,0 +1,48 @@
+// Keyset pagination over (timestamp, id), newest first. Cursors are opaque to clients.
+
+export interface PageCursor {
+  timestamp: Date
+  id: string
+  // For lists that put pinned rows first: whether the last row was pinned
+  pinned?: boolean
+}
+
+export function encodeCursor(timestamp: Date, id: string, pinned?: boolean): string {
+  const parts: unknown[] = [timestamp.toISOString(), id]
+  if (pinned !== undefined) parts.push(pinned)
+  return Buffer.from(JSON.stringify(parts)).toString('base64url')
+}
+
+export function decodeCursor(cursor: string | null | undefined): PageCursor | null {
+  if (!cursor) return null
+  try {
+    const [timestamp, id, pinned] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'))
+    const date = new Date(timestamp)
+    if (typeof id !== 'string' || isNaN(date.getTime())) return null
+    return typeof pinned === 'boolean' ? { timestamp: date, id, pinned } : { timestamp: date, id }
+  } catch {
+    return null
+  }
+}
+
+export function parseLimit(value: string | null, fallback: number, max: number): number {
+  const limit = parseInt(value || '', 10)
+  if (!Number.isFinite(limit) || limit < 1) return fallback
+  return Math.min(limit, max)
+}
+
+// Prisma filter for the rows that come after `cursor` when ordering by `field` desc, then id desc
+export function olderThan(field: string, cursor: PageCursor) {
+  return {
+    OR: [
+      { [field]: { lt: cursor.timestamp } },
+      { [field]: cursor.timestamp, id: { lt: cursor.id } },
+    ],
+  }
+}
+
+// In-memory counterpart of olderThan, for lists that are paged after loading
+export function isOlderThan(timestamp: Date, id: string, cursor: PageCursor): boolean {
+  const diff = timestamp.getTime() - cursor.timestamp.getTime()
+  return diff < 0 || (diff === 0 && id < cursor.id)
+}
@@ -0,0 +1,181 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+
+export const QUOTA_METRICS = ['llmTokens', 'executionMs', 'deepSearches', 'storageBytes'] as const
+export type QuotaMetric = typeof QUOTA_METRICS[number]
+export type QuotaPeriod = 'daily' | 'monthly' | 'total'
+
+// Storage is a standing total; everything else resets at the start of each UTC day and month
+const METRIC_PERIODS: Record<QuotaMetric, QuotaPeriod[]> = {
+  llmTokens: ['daily', 'monthly'],
+  executionMs: ['daily', 'monthly'],
+  deepSearches: ['daily', 'monthly'],
+  storageBytes: ['total'],
+}
+
+const METRIC_LABELS: Record<QuotaMetric, string> = {
+  llmTokens: 'LLM tokens',
+  executionMs: 'code execution time (ms)',
+  deepSearches: 'deep searches',
+  storageBytes: 'file storage (bytes)',
+}
+
+// A missing or null limit means unlimited
+export type QuotaLimits = Partial<Record<QuotaMetric, Partial<Record<QuotaPeriod, number | null>>>>
+
+export interface QuotaStatus {
+  metric: QuotaMetric
+  period: QuotaPeriod
+  limit: number | null
+  used: number
+  remaining: number | null
+  // Start of the next period; null for totals
+  resetsAt: Date | null
+}
+
+export class QuotaExceededError extends Error {
+  constructor(public quota: QuotaStatus) {
+    super(
+      `${quota.period === 'total' ? 'The' : `The ${quota.period}`} ${METRIC_LABELS[quota.metric]} quota does not allow this: ` +
+      `${quota.used} of ${quota.limit} used` + (quota.resetsAt ? `, resets at ${quota.resetsAt.toISOString()}` : '')
+    )
+    this.name = 'QuotaExceededError'
+  }
+}
+
+export function parseQuotaLimits(value: unknown): { data: QuotaLimits; error?: undefined } | { data?: undefined; error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'Limits must be an object keyed by metric' }
+  }
+
+  const limits: QuotaLimits = {}
+  for (const [metric, periods] of Object.entries(value as Record<string, unknown>)) {
+    if (!(QUOTA_METRICS as readonly string[]).includes(metric)) {
+      return { error: `Unknown quota metric '${metric}'; expected one of ${QUOTA_METRICS.join(', ')}` }
+    }
+    if (!periods || typeof periods !== 'object' || Array.isArray(periods)) {
+      return { error: `Limits for '${metric}' must be an object keyed by period` }
+    }
+
+    const allowed = METRIC_PERIODS[metric as QuotaMetric]
+    const entry: Partial<Record<QuotaPeriod, number | null>> = {}
+    for (const [period, limit] of Object.entries(periods as Record<string, unknown>)) {
+      if (!allowed.includes(period as QuotaPeriod)) {
+        return { error: `'${metric}' accepts the periods ${allowed.join(', ')}` }
+      }
+      if (limit !== null && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 0)) {
+        return { error: `The ${period} limit for '${metric}' must be a non-negative integer or null` }
+      }
+      entry[period as QuotaPeriod] = limit as number | null
+    }
+    limits[metric as QuotaMetric] = entry
+  }
+
+  return { data: limits }
+}
+
+/**
+ * The user's own limits layered over their plan's, or the default plan's when they have
+ * none. A limit set to null on the user lifts the plan's limit.
+ */
+export async function resolveQuotaLimits(userId: string): Promise<{ plan: string | null; limits: QuotaLimits }> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, include: { quotaPlan: true } })
+  const plan = user?.quotaPlan || await prisma.quotaPlan.findFirst({ where: { isDefault: true } })
+
+  const planLimits = (plan?.limits as QuotaLimits | null) || {}
+  const userLimits = (user?.quotaLimits as QuotaLimits | null) || {}
+  const limits: QuotaLimits = {}
+  QUOTA_METRICS.forEach(metric => {
+    limits[metric] = { ...planLimits[metric], ...userLimits[metric] }
+  })
+
+  return { plan: plan?.name || null, limits }
+}
+
+function getPeriodBounds(period: QuotaPeriod, now: Date): { start: Date | null; resetsAt: Date | null } {
+  if (period === 'daily') {
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    return { start, resetsAt: new Date(start.getTime() + 24 * 60 * 60 * 1000) }
+  }
+  if (period === 'monthly') {
+    return {
+      start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+      resetsAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+    }
+  }
+  return { start: null, resetsAt: null }
+}
+
+async function measureUsage(userId: string, metric: QuotaMetric, since: Date | null): Promise<number> {
+  const after = since ? { gte: since } : undefined
+
+  switch (metric) {
+    case 'llmTokens': {
+      const result = await prisma.lLMUsage.aggregate({ where: { userId, createdAt: after }, _sum: { totalTokens: true } })
+      return result._sum.totalTokens || 0
+    }
+    case 'executionMs': {
+      const result = await prisma.codeExecution.aggregate({ where: { userId, executedAt: after }, _sum: { duration: true } })
+      return result._sum.duration || 0
+    }
+    case 'deepSearches':
+      return prisma.deepSearchRun.count({ where: { userId, createdAt: after } })
+    case 'storageBytes': {
+      const result = await prisma.file.aggregate({ where: { userId, isDeleted: false }, _sum: { size: true } })
+      return result._sum.size || 0
+    }
+  }
+}
+
+// Usage against every quota that applies to the user, including unlimited ones when `all` is set
+export async function getQuotaStatus(userId: string, options: { metrics?: QuotaMetric[]; all?: boolean } = {}): Promise<QuotaStatus[]> {
+  const { limits } = await resolveQuotaLimits(userId)
+  const now = new Date()
+
+  const entries = (options.metrics || [...QUOTA_METRICS]).reduce<Array<{ metric: QuotaMetric; period: QuotaPeriod; limit: number | null }>>(
+    (list, metric) => list.concat(
+      METRIC_PERIODS[metric]
+        .map(period => ({ metric, period, limit: limits[metric]?.[period] ?? null }))
+        .filter(entry => options.all || entry.limit !== null)
+    ),
+    []
+  )
+
+  return Promise.all(entries.map(async ({ metric, period, limit }) => {
+    const { start, resetsAt } = getPeriodBounds(period, now)
+    const used = await measureUsage(userId, metric, start)
+    return { metric, period, limit, used, remaining: limit === null ? null : Math.max(0, limit - used), resetsAt }
+  }))
+}
+
+/**
+ * Throws QuotaExceededError when `amount` more of `metric` does not fit in one of the user's
+ * quotas. With no amount (e.g. tokens, which are only known afterwards) the request is
+ * refused once a quota is used up. Returns the smallest remaining allowance, or null when
+ * nothing limits the metric.
+ */
+export async function assertQuota(userId: string, metric: QuotaMetric, amount = 0): Promise<number | null> {
+  const statuses = await getQuotaStatus(userId, { metrics: [metric] })
+
+  let remaining: number | null = null
+  for (const status of statuses) {
+    if (status.limit === null) continue
+    if (amount > 0 ? status.used + amount > status.limit : status.used >= status.limit) {
+      throw new QuotaExceededError(status)
+    }
+    remaining = remaining === null ? status.remaining : Math.min(remaining, status.remaining!)
+  }
+  return remaining
+}
+
+export function quotaExceeded(error: QuotaExceededError) {
+  const { quota } = error
+  const headers: Record<string, string> = {}
+  if (quota.resetsAt) {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil((quota.resetsAt.getTime() - Date.now()) / 1000)))
+  }
+  return NextResponse.json(
+    { error: error.message, code: 'quota_exceeded', quota },
+    { status: 429, headers }
+  )
+}
@@ -0,0 +1,232 @@
+import { NextResponse } from 'next/server'
+import Redis from 'ioredis'
+import type { RequestAuth } from '@/lib/auth'
+
+export interface RateLimitRule {
+  limit: number
+  windowMs: number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // 0 when allowed
+  retryAfterMs: number
+}
+
+// `RATE_LIMIT_<NAME>` overrides a default as `<requests>/<seconds>`, e.g. RATE_LIMIT_TOOL_PYTHON_EXECUTION=5/60;
+// `off` disables the limit. Tools without a rule of their own only count towards `tools`.
+const DEFAULT_RULES: Record<string, string> = {
+  chat: '20/60',
+  tools: '60/60',
+  // Each API token, across every limited route, on top of its user's limits
+  token: '60/60',
+  // Each client IP, across every limited route, whoever is signed in
+  ip: '300/60',
+  'tool:python_execution': '10/60',
+  'tool:deep_search': '5/60',
+  'tool:web_browsing': '30/60',
+  'tool:file_processing': '20/60',
+}
+
+const MEMORY_SWEEP_SIZE = 10000
+
+export class RateLimitError extends Error {
+  constructor(message: string, public retryAfterMs: number) {
+    super(message)
+    this.name = 'RateLimitError'
+  }
+}
+
+export function getRateLimitRule(name: string): RateLimitRule | null {
+  const value = process.env[`RATE_LIMIT_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`] ?? DEFAULT_RULES[name]
+  const match = value?.trim().match(/^(\d+)\s*\/\s*(\d+)$/)
+  if (!match || Number(match[1]) <= 0 || Number(match[2]) <= 0) return null
+  return { limit: Number(match[1]), windowMs: Number(match[2]) * 1000 }
+}
+
+interface RateLimitStore {
+  // Counts a hit in window `window` of `key`; returns the hits of that window and the one before
+  increment(key: string, window: number, ttlMs: number): Promise<{ current: number; previous: number }>
+  decrement(key: string, window: number): Promise<void>
+}
+
+// Counters of this process only: enough for a single instance
+class MemoryStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>()
+
+  async increment(key: string, window: number, ttlMs: number) {
+    this.sweep()
+    const now = Date.now()
+    const entry = this.counters.get(`${key}:${window}`)
+    const current = entry && entry.expiresAt > now ? entry.count + 1 : 1
+    this.counters.set(`${key}:${window}`, { count: current, expiresAt: now + ttlMs })
+
+    const previous = this.counters.get(`${key}:${window - 1}`)
+    return { current, previous: previous && previous.expiresAt > now ? previous.count : 0 }
+  }
+
+  async decrement(key: string, window: number) {
+    const entry = this.counters.get(`${key}:${window}`)
+    if (entry && entry.count > 0) entry.count -= 1
+  }
+
+  private sweep() {
+    if (this.counters.size < MEMORY_SWEEP_SIZE) return
+    const now = Date.now()
+    Array.from(this.counters.entries()).forEach(([key, entry]) => {
+      if (entry.expiresAt <= now) this.counters.delete(key)
+    })
+  }
+}
+
+// Shared counters, so every instance behind a load balancer enforces the same limits
+class RedisStore implements RateLimitStore {
+  constructor(private redis: Redis) {}
+
+  async increment(key: string, window: number, ttlMs: number) {
+    const results = await this.redis
+      .multi()
+      .incr(`ratelimit:${key}:${window}`)
+      .pexpire(`ratelimit:${key}:${window}`, ttlMs)
+      .get(`ratelimit:${key}:${window - 1}`)
+      .exec()
+    if (!results || results.some(([error]) => error)) {
+      throw new Error('Redis rate limit transaction failed')
+    }
+    return { current: Number(results[0][1]), previous: Number(results[2][1] || 0) }
+  }
+
+  async decrement(key: string, window: number) {
+    await this.redis.decr(`ratelimit:${key}:${window}`)
+  }
+}
+
+const memoryStore = new MemoryStore()
+let redisStore: RedisStore | null | undefined
+
+function getStore(): RateLimitStore {
+  if (redisStore === undefined) {
+    redisStore = process.env.REDIS_URL
+      ? new RedisStore(new Redis(process.env.REDIS_URL, { maxRetriesPerRequest: 1, enableOfflineQueue: false }))
+      : null
+  }
+  return redisStore || memoryStore
+}
+
+/**
+ * Sliding-window counter: the previous fixed window's hits count in proportion to how much of
+ * it still overlaps the last `windowMs`. Rejected hits are not counted, so a client that waits
+ * for `retryAfterMs` gets through. When Redis is unreachable the limit falls back to this
+ * instance's own counters rather than failing the request.
+ */
+export async function checkRateLimit(name: string, key: string): Promise<RateLimitResult> {
+  const rule = getRateLimitRule(name)
+  if (!rule) {
+    return { allowed: true, limit: Infinity, remaining: Infinity, retryAfterMs: 0 }
+  }
+
+  const now = Date.now()
+  const window = Math.floor(now / rule.windowMs)
+  const elapsed = now - window * rule.windowMs
+  const storeKey = `${name}:${key}`
+
+  let store = getStore()
+  let counts
+  try {
+    counts = await store.increment(storeKey, window, rule.windowMs * 2)
+  } catch (error) {
+    console.error('Rate limit store error, using local counters:', error)
+    store = memoryStore
+    counts = await store.increment(storeKey, window, rule.windowMs * 2)
+  }
+
+  const weight = (rule.windowMs - elapsed) / rule.windowMs
+  const estimated = counts.previous * weight + counts.current
+  if (estimated <= rule.limit) {
+    return { allowed: true, limit: rule.limit, remaining: Math.floor(rule.limit - estimated), retryAfterMs: 0 }
+  }
+
+  await store.decrement(storeKey, window).catch(() => undefined)
+  return {
+    allowed: false,
+    limit: rule.limit,
+    remaining: 0,
+    retryAfterMs: Math.max(1000, Math.ceil(getRetryAfter(rule, elapsed, counts.current - 1, counts.previous)))
+  }
+}
+
+// Time until one more hit fits: first while the previous window's share shrinks, else in the next window
+function getRetryAfter(rule: RateLimitRule, elapsed: number, current: number, previous: number): number {
+  const { limit, windowMs } = rule
+  if (current + 1 <= limit && previous > 0) {
+    const wait = windowMs * (1 - (limit - current - 1) / previous) - elapsed
+    if (wait < windowMs - elapsed) return Math.max(0, wait)
+  }
+  return windowMs - elapsed + Math.max(0, windowMs * (1 - (limit - 1) / current))
+}
+
+/**
+ * Forwarding headers can be set by anyone, so they are only read when TRUSTED_PROXY_HOPS says how
+ * many proxies of ours sit in front of the app: the client is the address the outermost of them
+ * appended to X-Forwarded-For, not the leftmost entry, which the client chose. Without a proxy
+ * only the platform-provided address is used, and the per-IP limit is skipped when there is none.
+ */
+export function getClientIp(request: Request): string | null {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS || 0)
+  if (Number.isInteger(hops) && hops > 0) {
+    const forwarded = (request.headers.get('x-forwarded-for') || '').split(',').map(entry => entry.trim()).filter(Boolean)
+    if (forwarded.length >= hops) return forwarded[forwarded.length - hops]
+    return hops === 1 ? request.headers.get('x-real-ip') : null
+  }
+  return (request as Request & { ip?: string }).ip || null
+}
+
+export function rateLimited(message: string, retryAfterMs: number) {
+  const retryAfter = Math.ceil(retryAfterMs / 1000)
+  return NextResponse.json(
+    { error: message, retryAfter },
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+  )
+}
+
+/**
+ * Applies the named limits to the caller's user, plus the per-token limit for API token
+ * requests and the per-IP limit. Returns the 429 response to send, or null to go ahead.
+ */
+export async function limitRequest(request: Request, auth: RequestAuth, names: string[]): Promise<NextResponse | null> {
+  const ip = getClientIp(request)
+  const checks: Array<[string, string]> = names.map(name => [name, `user:${auth.user.id}`])
+  if (auth.tokenId) checks.push(['token', `token:${auth.tokenId}`])
+  if (ip) checks.push(['ip', `ip:${ip}`])
+
+  for (const [name, key] of checks) {
+    const result = await checkRateLimit(name, key)
+    if (!result.allowed) {
+      return rateLimited(`Rate limit exceeded (${name}); try again later`, result.retryAfterMs)
+    }
+  }
+  return null
+}
+
+/**
+ * Caps how many of something run at once in this process, e.g. child processes. Callers
+ * must call the returned release function when done.
+ */
+export class ConcurrencyLimit {
+  private active = 0
+
+  constructor(private max: number) {}
+
+  tryAcquire(): (() => void) | null {
+    if (this.active >= this.max) return null
+    this.active += 1
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      this.active -= 1
+    }
+  }
+}
@@ -0,0 +1,277 @@
+import { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { SearchHit, SearchHitType } from '@/lib/types'
+
+// Full-text search over message content, conversation titles and summaries, and processed file text
+
+export const SEARCH_TYPES: SearchHitType[] = ['message', 'conversation', 'file']
+
+export interface SearchFilters {
+  types: SearchHitType[]
+  roles?: string[]
+  from?: Date
+  to?: Date
+  conversationId?: string
+  // Tool messages from this tool, and the answers that called it
+  tool?: string
+}
+
+// 'simple' does no stemming, which behaves the same for every language users write in
+const TEXT_CONFIG = /^[a-z_]+$/.test(process.env.SEARCH_TEXT_CONFIG || '') ? process.env.SEARCH_TEXT_CONFIG! : 'simple'
+
+// ts_headline markers; private-use characters cannot clash with the text itself
+const MARK_START = '\uE000'
+const MARK_END = '\uE001'
+const HEADLINE_OPTIONS = `StartSel=${MARK_START}, StopSel=${MARK_END}, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "`
+
+// The searchable text of each table, given the prefix its columns are referenced with
+const DOCUMENTS = {
+  message: (t: string) => `${t}content`,
+  conversation: (t: string) => `coalesce(${t}title, '') || ' ' || coalesce(${t}metadata->'summary'->>'content', '')`,
+  file: (t: string) => `coalesce(${t}"originalName", '') || ' ' || coalesce(${t}metadata->>'processedContent', '')`,
+}
+
+const TABLES: Record<SearchHitType, string> = {
+  message: 'messages',
+  conversation: 'conversations',
+  file: 'files',
+}
+
+// Bumped when a document expression changes, so that an index matching the new one is created
+const INDEX_VERSIONS: Record<SearchHitType, number> = {
+  message: 1,
+  conversation: 2,
+  file: 1,
+}
+
+// Queries must repeat the indexed expression exactly for Postgres to use the index
+function vector(document: string): Prisma.Sql {
+  return Prisma.raw(`to_tsvector('${TEXT_CONFIG}'::regconfig, ${document})`)
+}
+
+function headline(document: string): Prisma.Sql {
+  return Prisma.sql`ts_headline(${Prisma.raw(`'${TEXT_CONFIG}'::regconfig`)}, ${Prisma.raw(document)}, q.query, ${HEADLINE_OPTIONS})`
+}
+
+function indexName(type: SearchHitType, version: number): string {
+  return `${TABLES[type]}_fts_${TEXT_CONFIG}${version > 1 ? `_v${version}` : ''}_idx`
+}
+
+/**
+ * Expression indexes cannot be declared in schema.prisma, so the GIN indexes behind search are
+ * built by `npm run db:indexes` after migrations rather than by requests. They are built
+ * CONCURRENTLY so that writes go on meanwhile, which leaves an invalid index behind if a build
+ * fails; the next run drops and rebuilds it. Search works without them, only slower.
+ */
+export async function createSearchIndexes(): Promise<string[]> {
+  const created: string[] = []
+  for (const type of SEARCH_TYPES) {
+    const version = INDEX_VERSIONS[type]
+    const name = indexName(type, version)
+    const existing = await prisma.$queryRaw<Array<{ valid: boolean }>>`
+      SELECT i.indisvalid AS valid FROM pg_class c JOIN pg_index i ON i.indexrelid = c.oid WHERE c.relname = ${name}
+    `
+    if (existing[0]?.valid) continue
+
+    if (existing.length > 0) {
+      await prisma.$executeRawUnsafe(`DROP INDEX CONCURRENTLY IF EXISTS ${name}`)
+    }
+    await prisma.$executeRawUnsafe(
+      `CREATE INDEX CONCURRENTLY ${name} ON ${TABLES[type]} USING GIN ((to_tsvector('${TEXT_CONFIG}'::regconfig, ${DOCUMENTS[type]('')})))`
+    )
+    if (version > 1) {
+      await prisma.$executeRawUnsafe(`DROP INDEX CONCURRENTLY IF EXISTS ${indexName(type, version - 1)}`)
+    }
+    created.push(name)
+  }
+  return created
+}
+
+// Escapes the headline for HTML and turns the match markers into <mark> tags
+function formatSnippet(text: string | null): string {
+  return (text || '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .split(MARK_START).join('<mark>')
+    .split(MARK_END).join('</mark>')
+}
+
+function dateRange(column: string, filters: SearchFilters): Prisma.Sql {
+  return Prisma.sql`
+    ${filters.from ? Prisma.sql`AND ${Prisma.raw(column)} >= ${filters.from}` : Prisma.empty}
+    ${filters.to ? Prisma.sql`AND ${Prisma.raw(column)} <= ${filters.to}` : Prisma.empty}
+  `
+}
+
+// Rows of the workspace, or the user's own outside any workspace; `alias` is the conversations or files table
+function ownedBy(alias: string, userId: string, workspaceId: string | null): Prisma.Sql {
+  return workspaceId
+    ? Prisma.sql`${Prisma.raw(alias)}."workspaceId" = ${workspaceId}`
+    : Prisma.sql`${Prisma.raw(alias)}."userId" = ${userId} AND ${Prisma.raw(alias)}."workspaceId" IS NULL`
+}
+
+function rankedQueries(userId: string, workspaceId: string | null, filters: SearchFilters): Prisma.Sql[] {
+  const queries: Prisma.Sql[] = []
+  // Role and tool filters only mean something for messages, and files belong to no conversation
+  const messagesOnly = Boolean(filters.roles?.length || filters.tool)
+
+  if (filters.types.includes('message')) {
+    queries.push(Prisma.sql`
+      SELECT 'message' AS type, m.id, m."createdAt" AS "createdAt", ts_rank_cd(${vector(DOCUMENTS.message('m.'))}, q.query) AS rank
+      FROM messages m JOIN conversations c ON c.id = m."conversationId", q
+      WHERE ${ownedBy('c', userId, workspaceId)}
+        AND ${vector(DOCUMENTS.message('m.'))} @@ q.query
+        ${filters.roles?.length ? Prisma.sql`AND m.role IN (${Prisma.join(filters.roles)})` : Prisma.empty}
+        ${filters.conversationId ? Prisma.sql`AND m."conversationId" = ${filters.conversationId}` : Prisma.empty}
+        ${filters.tool
+          ? Prisma.sql`AND (m.metadata->>'toolName' = ${filters.tool} OR m.metadata->'toolCalls' @> ${JSON.stringify([{ toolName: filters.tool }])}::jsonb)`
+          : Prisma.empty}
+        ${dateRange('m."createdAt"', filters)}
+    `)
+  }
+
+  if (filters.types.includes('conversation') && !messagesOnly) {
+    queries.push(Prisma.sql`
+      SELECT 'conversation' AS type, c.id, c."updatedAt" AS "createdAt", ts_rank_cd(${vector(DOCUMENTS.conversation('c.'))}, q.query) AS rank
+      FROM conversations c, q
+      WHERE ${ownedBy('c', userId, workspaceId)}
+        AND ${vector(DOCUMENTS.conversation('c.'))} @@ q.query
+        ${filters.conversationId ? Prisma.sql`AND c.id = ${filters.conversationId}` : Prisma.empty}
+        ${dateRange('c."updatedAt"', filters)}
+    `)
+  }
+
+  if (filters.types.includes('file') && !messagesOnly && !filters.conversationId) {
+    queries.push(Prisma.sql`
+      SELECT 'file' AS type, f.id, f."uploadedAt" AS "createdAt", ts_rank_cd(${vector(DOCUMENTS.file('f.'))}, q.query) AS rank
+      FROM files f, q
+      WHERE ${ownedBy('f', userId, workspaceId)}
+        AND f."isDeleted" = false
+        AND ${vector(DOCUMENTS.file('f.'))} @@ q.query
+        ${dateRange('f."uploadedAt"', filters)}
+    `)
+  }
+
+  return queries
+}
+
+/**
+ * Runs `query` (web search syntax: quoted phrases, `or`, `-word`) across the user's messages,
+ * conversation titles and summaries, and files, or the workspace's when `workspaceId` is set.
+ * Hits are ranked together and come with an HTML snippet in which the matched terms are
+ * wrapped in <mark>.
+ */
+export async function search(
+  userId: string,
+  workspaceId: string | null,
+  query: string,
+  filters: SearchFilters,
+  page: { limit: number; offset: number }
+): Promise<{ hits: SearchHit[]; hasMore: boolean }> {
+  const queries = rankedQueries(userId, workspaceId, filters)
+  if (queries.length === 0) {
+    return { hits: [], hasMore: false }
+  }
+
+  const tsquery = Prisma.sql`WITH q AS (SELECT websearch_to_tsquery(${Prisma.raw(`'${TEXT_CONFIG}'::regconfig`)}, ${query}) AS query)`
+
+  // Ranking first, then snippets for the page alone since ts_headline is the expensive part
+  const ranked = await prisma.$queryRaw<Array<{ type: SearchHitType; id: string; rank: number }>>`
+    ${tsquery}
+    SELECT type, id, rank FROM (${Prisma.join(queries, ' UNION ALL ')}) hits
+    ORDER BY rank DESC, "createdAt" DESC, id ASC
+    LIMIT ${page.limit + 1} OFFSET ${page.offset}
+  `
+  const rows = ranked.slice(0, page.limit)
+  const idsOf = (type: SearchHitType) => rows.filter(row => row.type === type).map(row => row.id)
+
+  const [messageIds, conversationIds, fileIds] = [idsOf('message'), idsOf('conversation'), idsOf('file')]
+
+  const [messages, conversations, files] = await Promise.all([
+    messageIds.length > 0
+      ? prisma.$queryRaw<Array<{
+          id: string
+          conversationId: string
+          conversationTitle: string | null
+          role: SearchHit['role']
+          toolName: string | null
+          createdAt: Date
+          snippet: string | null
+        }>>`
+          ${tsquery}
+          SELECT m.id, m."conversationId", c.title AS "conversationTitle", m.role, m.metadata->>'toolName' AS "toolName",
+                 m."createdAt", ${headline(DOCUMENTS.message('m.'))} AS snippet
+          FROM messages m JOIN conversations c ON c.id = m."conversationId", q
+          WHERE m.id IN (${Prisma.join(messageIds)})
+        `
+      : [],
+    conversationIds.length > 0
+      ? prisma.$queryRaw<Array<{ id: string; title: string | null; updatedAt: Date; snippet: string | null }>>`
+          ${tsquery}
+          SELECT c.id, c.title, c."updatedAt", ${headline(DOCUMENTS.conversation('c.'))} AS snippet
+          FROM conversations c, q
+          WHERE c.id IN (${Prisma.join(conversationIds)})
+        `
+      : [],
+    fileIds.length > 0
+      ? prisma.$queryRaw<Array<{ id: string; originalName: string; uploadedAt: Date; snippet: string | null }>>`
+          ${tsquery}
+          SELECT f.id, f."originalName", f."uploadedAt", ${headline(DOCUMENTS.file('f.'))} AS snippet
+          FROM files f, q
+          WHERE f.id IN (${Prisma.join(fileIds)})
+        `
+      : [],
+  ])
+
+  const hits = rows.map((row): SearchHit | null => {
+    if (row.type === 'message') {
+      const message = messages.find(msg => msg.id === row.id)
+      if (!message) return null
+      return {
+        type: 'message',
+        id: message.id,
+        rank: row.rank,
+        snippet: formatSnippet(message.snippet),
+        conversationId: message.conversationId,
+        conversationTitle: message.conversationTitle,
+        role: message.role,
+        toolName: message.toolName,
+        createdAt: message.createdAt,
+        url: `/?conversation=${encodeURIComponent(message.conversationId)}&message=${encodeURIComponent(message.id)}`,
+      }
+    }
+
+    if (row.type === 'conversation') {
+      const conversation = conversations.find(conv => conv.id === row.id)
+      if (!conversation) return null
+      return {
+        type: 'conversation',
+        id: conversation.id,
+        rank: row.rank,
+        snippet: formatSnippet(conversation.snippet),
+        conversationId: conversation.id,
+        conversationTitle: conversation.title,
+        createdAt: conversation.updatedAt,
+        url: `/?conversation=${encodeURIComponent(conversation.id)}`,
+      }
+    }
+
+    const file = files.find(f => f.id === row.id)
+    if (!file) return null
+    return {
+      type: 'file',
+      id: file.id,
+      rank: row.rank,
+      snippet: formatSnippet(file.snippet),
+      fileName: file.originalName,
+      createdAt: file.uploadedAt,
+    }
+  })
+
+  return {
+    hits: hits.filter((hit): hit is SearchHit => hit !== null),
+    hasMore: ranked.length > page.limit,
+  }
+}
@@ -0,0 +1,57 @@
+// Server-Sent Events helpers shared by the chat route, the LLM providers and the client hook
+
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+export function formatServerSentEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message'
+  const dataLines: string[] = []
+
+  block.split(/\r?\n/).forEach(line => {
+    if (line.startsWith(':')) return
+    const separator = line.indexOf(':')
+    const field = separator === -1 ? line : line.slice(0, separator)
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '')
+
+    if (field === 'event') event = value
+    if (field === 'data') dataLines.push(value)
+  })
+
+  return dataLines.length > 0 ? { event, data: dataLines.join('\n') } : null
+}
+
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+
+      let boundary = buffer.match(/\r?\n\r?\n/)
+      while (boundary && boundary.index !== undefined) {
+        const parsed = parseEventBlock(buffer.slice(0, boundary.index))
+        buffer = buffer.slice(boundary.index + boundary[0].length)
+        if (parsed) yield parsed
+
+        boundary = buffer.match(/\r?\n\r?\n/)
+      }
+    }
+
+    const trailing = parseEventBlock(buffer + decoder.decode())
+    if (trailing) yield trailing
+  } finally {
+    // Stops the underlying request when the consumer bails out early
+    reader.cancel().catch(() => undefined)
+  }
+}
@@ -1,15 +1,42 @@
+import { LLMClient, LLMClientOptions, llm } from '@/lib/llm';
+
+// Who a tool runs on behalf of, used to attribute logs and LLM usage
+export interface ToolContext {
+  userId?: string;
+  // Set in a workspace conversation; the tool then works with the workspace's files
+  workspaceId?: string | null;
+  conversationId?: string;
+  requestId?: string;
+  // Fires when the user cancels the turn; tools stop their work and release what they hold
+  signal?: AbortSignal;
+  // The provider, model and key resolved for the user or workspace; tools make their LLM calls
+  // with these, and fall back to the server's environment configuration without them
+  llmOptions?: LLMClientOptions;
+}
+
 export abstract class BaseTool {
   abstract name: string;
   abstract description: string;
   abstract parameters: Record<string, any>;
+  // Tools that call an LLM are refused once the user's token quota is used up
+  usesLLM = false;
 
-  abstract execute(parameters: any): Promise<{
+  abstract execute(parameters: any, context?: ToolContext): Promise<{
     success: boolean;
     data?: any;
     error?: string;
     executionTime?: number;
   }>;
 
+  protected getLLMClient(context: ToolContext): LLMClient {
+    return (context.llmOptions ? new LLMClient(context.llmOptions) : llm).withUsage({
+      userId: context.userId,
+      conversationId: context.conversationId,
+      requestId: context.requestId,
+      tool: this.name
+    });
+  }
+
   protected async measureExecutionTime<T>(operation: () => Promise<T>): Promise<{ result: T; executionTime: number }> {
     const startTime = Date.now();
     const result = await operation();
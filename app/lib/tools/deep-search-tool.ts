@@ -1,8 +1,22 @@
-import { BaseTool } from './base-tool';
+import { BaseTool, ToolContext } from './base-tool';
 import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { LLMAbortedError, LLMClient, generateStructured } from '@/lib/llm';
+import { assertQuota } from '@/lib/quotas';
 
 const prisma = new PrismaClient();
 
+const researchOutputSchema = z.object({
+  summary: z.string().min(1),
+  sources: z.array(z.object({
+    title: z.string(),
+    url: z.string().url(),
+    snippet: z.string().default(''),
+    domain: z.string().optional(),
+    credibility_score: z.number().min(0).max(1).default(0.5)
+  })).default([])
+});
+
 interface SearchSource {
   title: string;
   url: string;
@@ -21,6 +35,7 @@ interface DeepSearchResult {
 
 export class DeepSearchTool extends BaseTool {
   name = 'deep_search';
+  usesLLM = true;
   description = 'Perform comprehensive web search across 20+ credible sources like Perplexity. Provides detailed analysis with source citations.';
   parameters = {
     query: { type: 'string', required: true, description: 'Search query' },
@@ -28,7 +43,7 @@ export class DeepSearchTool extends BaseTool {
     credibility_filter: { type: 'boolean', default: true, description: 'Filter for credible sources only' }
   };
 
-  async execute(parameters: any) {
+  async execute(parameters: any, context: ToolContext = {}) {
     const { result, executionTime } = await this.measureExecutionTime(async () => {
       const validation = this.validateParameters(parameters, ['query']);
       if (!validation.isValid) {
@@ -40,6 +55,12 @@ export class DeepSearchTool extends BaseTool {
       // Sanitize query
       const sanitizedQuery = this.sanitizeInput(query);
 
+      // Every search counts towards the user's quota, including ones answered from the cache
+      if (context.userId) {
+        await assertQuota(context.userId, 'deepSearches', 1);
+        await prisma.deepSearchRun.create({ data: { userId: context.userId, query: sanitizedQuery } });
+      }
+
       // Check cache first
       const cachedResult = await this.getCachedResult(sanitizedQuery);
       if (cachedResult) {
@@ -47,7 +68,8 @@ export class DeepSearchTool extends BaseTool {
       }
 
       // Perform comprehensive search using LLM with web search capability
-      const searchResult = await this.performDeepSearch(sanitizedQuery, max_sources, credibility_filter);
+      const client = this.getLLMClient(context);
+      const searchResult = await this.performDeepSearch(client, sanitizedQuery, max_sources, credibility_filter, context.signal);
       
       // Cache the result
       await this.cacheResult(sanitizedQuery, searchResult);
@@ -87,24 +109,13 @@ export class DeepSearchTool extends BaseTool {
     return null;
   }
 
-  private async performDeepSearch(query: string, maxSources: number, credibilityFilter: boolean): Promise<DeepSearchResult> {
+  private async performDeepSearch(client: LLMClient, query: string, maxSources: number, credibilityFilter: boolean, signal?: AbortSignal): Promise<DeepSearchResult> {
     try {
-      // Use multiple LLM providers for comprehensive search
-      const apiKey = process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY || process.env.DEEPSEEK_API_KEY;
-      const apiUrl = process.env.OPENAI_API_KEY ? 'https://api.openai.com/v1/chat/completions' : 'https://api.anthropic.com/v1/messages';
-      
-      const llmResponse = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify({
-          model: process.env.OPENAI_API_KEY ? 'gpt-4' : 'claude-3-sonnet-20240229',
-          messages: [
-            {
-              role: 'system',
-              content: `You are a comprehensive research assistant. When given a search query, provide:
+      const { data: parsedResult } = await generateStructured(client, {
+        messages: [
+          {
+            role: 'system',
+            content: `You are a comprehensive research assistant. When given a search query, provide:
 1. A detailed summary of the topic with key insights
 2. A list of credible sources with titles, URLs, snippets, and credibility scores
 3. Focus on recent, authoritative sources from reputable domains
@@ -124,46 +135,36 @@ Format your response as JSON with this structure:
 }
 
 Provide at least ${maxSources} sources when possible. ${credibilityFilter ? 'Only include highly credible sources (news sites, academic institutions, government sites, etc.)' : ''}`
-            },
-            {
-              role: 'user',
-              content: `Research this query comprehensively: "${query}"\n\nProvide detailed analysis with multiple credible sources.`
-            }
-          ],
-          temperature: 0.3,
-          max_tokens: 4000
-        })
-      });
-
-      if (!llmResponse.ok) {
-        throw new Error(`LLM API error: ${llmResponse.status}`);
-      }
-
-      const llmData = await llmResponse.json();
-      let responseContent = llmData.choices?.[0]?.message?.content || llmData.content?.[0]?.text;
-
-      if (!responseContent) {
-        throw new Error('No response content from LLM');
-      }
+          },
+          {
+            role: 'user',
+            content: `Research this query comprehensively: "${query}"\n\nProvide detailed analysis with multiple credible sources.`
+          }
+        ],
+        temperature: 0.3,
+        maxTokens: 4000,
+        signal
+      }, researchOutputSchema, { name: 'deep_search_result' });
 
-      // Clean and parse JSON response
-      responseContent = responseContent.replace(/```json\n?|\n?```/g, '').trim();
-      responseContent = responseContent.replace(/,(\s*[}\]])/g, '$1'); // Remove trailing commas
-      
-      const parsedResult = JSON.parse(responseContent);
+      const sources: SearchSource[] = parsedResult.sources.map(source => ({
+        ...source,
+        domain: source.domain || new URL(source.url).hostname
+      }));
 
       // Enhance with additional web search if needed
-      const enhancedSources = await this.enhanceWithWebSearch(query, parsedResult.sources || []);
+      const enhancedSources = await this.enhanceWithWebSearch(query, sources);
 
       return {
         query,
-        summary: parsedResult.summary || 'No summary available',
+        summary: parsedResult.summary,
         sources: enhancedSources,
         total_sources: enhancedSources.length,
         search_time: Date.now()
       };
 
     } catch (error) {
+      // A cancelled search has no result worth caching
+      if (error instanceof LLMAbortedError) throw error;
       console.error('Deep search error:', error);
       
       // Fallback to basic search
@@ -1,20 +1,37 @@
-import { BaseTool } from './base-tool';
+import { BaseTool, ToolContext } from './base-tool';
 import { PrismaClient } from '@prisma/client';
 import { readFile } from 'fs/promises';
+import { z } from 'zod';
+import { LLMAbortedError, LLMClient, LLMMessage, generateStructured } from '@/lib/llm';
+import { scopeFilter } from '@/lib/workspaces';
 
 const prisma = new PrismaClient();
 
+const extractionOutputSchema = z.object({
+  document_type: z.string(),
+  summary: z.string(),
+  key_points: z.array(z.string()).default([]),
+  entities: z.array(z.object({ name: z.string(), type: z.string() })).default([]),
+  data_points: z.array(z.object({ label: z.string(), value: z.string() })).default([]),
+  dates: z.array(z.object({ date: z.string(), description: z.string() })).default([])
+});
+
+type ExtractionOutput = z.infer<typeof extractionOutputSchema>;
+
 interface FileProcessingResult {
   filename: string;
   content_type: string;
   extracted_text?: string;
   analysis: string;
+  // Schema-validated fields, for the 'extraction' analysis type
+  extracted_data?: ExtractionOutput;
   metadata: Record<string, any>;
   processing_method: string;
 }
 
 export class FileProcessingTool extends BaseTool {
   name = 'file_processing';
+  usesLLM = true;
   description = 'Process and analyze various file types including PDF, Word, Excel, images, and more using AI analysis.';
   parameters = {
     file_path: { type: 'string', required: true, description: 'Path to the file to process' },
@@ -22,7 +39,7 @@ export class FileProcessingTool extends BaseTool {
     specific_query: { type: 'string', description: 'Specific question or query about the file content' }
   };
 
-  async execute(parameters: any) {
+  async execute(parameters: any, context: ToolContext = {}) {
     const { result, executionTime } = await this.measureExecutionTime(async () => {
       const validation = this.validateParameters(parameters, ['file_path']);
       if (!validation.isValid) {
@@ -32,13 +49,14 @@ export class FileProcessingTool extends BaseTool {
       const { file_path, analysis_type = 'comprehensive', specific_query } = parameters;
 
       // Get file info from database
-      const fileRecord = await this.getFileRecord(file_path);
+      const fileRecord = context.userId ? await this.getFileRecord(file_path, context.userId, context.workspaceId || null) : null;
       if (!fileRecord) {
         throw new Error('File not found in database');
       }
 
       // Process file using LLM API
-      const processingResult = await this.processFileWithLLM(fileRecord, analysis_type, specific_query);
+      const client = this.getLLMClient(context);
+      const processingResult = await this.processFileWithLLM(client, fileRecord, analysis_type, specific_query, context.signal);
       
       // Update file record with processing results
       await this.updateFileRecord(fileRecord.id, processingResult);
@@ -53,18 +71,19 @@ export class FileProcessingTool extends BaseTool {
     };
   }
 
-  private async getFileRecord(filePath: string) {
+  // Only the calling user's uploads can be processed, or the workspace's in a workspace conversation
+  private async getFileRecord(filePath: string, userId: string, workspaceId: string | null) {
     try {
       // Try to find by exact path first
       let fileRecord = await prisma.file.findFirst({
-        where: { path: filePath }
+        where: { path: filePath, ...scopeFilter(userId, workspaceId) }
       });
 
       // If not found, try to find by filename
       if (!fileRecord) {
         const filename = filePath.split('/').pop() || filePath;
         fileRecord = await prisma.file.findFirst({
-          where: { filename }
+          where: { filename, ...scopeFilter(userId, workspaceId) }
         });
       }
 
@@ -75,7 +94,7 @@ export class FileProcessingTool extends BaseTool {
     }
   }
 
-  private async processFileWithLLM(fileRecord: any, analysisType: string, specificQuery?: string): Promise<FileProcessingResult> {
+  private async processFileWithLLM(client: LLMClient, fileRecord: any, analysisType: string, specificQuery?: string, signal?: AbortSignal): Promise<FileProcessingResult> {
     try {
       // Read file content
       const fileBuffer = await readFile(fileRecord.path);
@@ -95,37 +114,35 @@ export class FileProcessingTool extends BaseTool {
         analysisPrompt += `\n\nFile content:\n${extractedText.substring(0, 8000)}`;
       }
 
-      // Call LLM API for analysis
-      const apiKey = process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY || process.env.DEEPSEEK_API_KEY;
-      const apiUrl = process.env.OPENAI_API_KEY ? 'https://api.openai.com/v1/chat/completions' : 'https://api.anthropic.com/v1/messages';
-      
-      const llmResponse = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
+      const messages: LLMMessage[] = [
+        {
+          role: 'system',
+          content: 'You are an expert file analyst. Provide detailed, structured analysis of files. Extract key information, summarize content, and answer specific questions when asked.'
         },
-        body: JSON.stringify({
-          model: process.env.OPENAI_API_KEY ? 'gpt-4' : 'claude-3-sonnet-20240229',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are an expert file analyst. Provide detailed, structured analysis of files. Extract key information, summarize content, and answer specific questions when asked.'
-            },
-            {
-              role: 'user',
-              content: analysisPrompt
-            }
-          ],
-          temperature: 0.3,
-          max_tokens: 4000
-        })
-      });
+        {
+          role: 'user',
+          content: analysisPrompt
+        }
+      ];
 
+      // Call LLM API for analysis
       let analysis = 'Analysis not available';
-      if (llmResponse.ok) {
-        const llmData = await llmResponse.json();
-        analysis = llmData.choices?.[0]?.message?.content || llmData.content?.[0]?.text || 'Analysis not available';
+      let extractedData: ExtractionOutput | undefined;
+      try {
+        if (analysisType === 'extraction') {
+          const { data } = await generateStructured(client, { messages, temperature: 0.1, maxTokens: 4000, signal }, extractionOutputSchema, {
+            name: 'file_extraction'
+          });
+          extractedData = data;
+          analysis = data.summary;
+        } else {
+          const llmResponse = await client.chat({ messages, temperature: 0.3, maxTokens: 4000, signal });
+          analysis = llmResponse.content || 'Analysis not available';
+        }
+      } catch (error) {
+        // Keep the file record as it was rather than storing a placeholder analysis
+        if (error instanceof LLMAbortedError) throw error;
+        console.error('File analysis LLM error:', error);
       }
 
       return {
@@ -133,6 +150,7 @@ export class FileProcessingTool extends BaseTool {
         content_type: mimeType,
         extracted_text: extractedText || undefined,
         analysis,
+        extracted_data: extractedData,
         metadata: {
           file_size: fileRecord.size,
           processing_date: new Date().toISOString(),
@@ -143,6 +161,7 @@ export class FileProcessingTool extends BaseTool {
       };
 
     } catch (error) {
+      if (error instanceof LLMAbortedError) throw error;
       console.error('File processing error:', error);
       
       return {
@@ -1,17 +1,23 @@
-import { BaseTool } from './base-tool';
+import { BaseTool, ToolContext } from './base-tool';
 import { PrismaClient } from '@prisma/client';
 import { spawn } from 'child_process';
 import { writeFile, unlink } from 'fs/promises';
 import { join } from 'path';
+import { ConcurrencyLimit, RateLimitError } from '@/lib/rate-limit';
+import { assertQuota } from '@/lib/quotas';
 
 const prisma = new PrismaClient();
+// Python processes running at once in this server process, across all users
+const maxConcurrent = Number(process.env.PYTHON_MAX_CONCURRENT || 4);
+const pythonProcesses = new ConcurrencyLimit(Number.isInteger(maxConcurrent) && maxConcurrent > 0 ? maxConcurrent : 4);
+const BUSY_RETRY_AFTER_MS = 5000;
 
 interface PythonExecutionResult {
   code: string;
   output: string;
   error: string | null;
   execution_time: number;
-  status: 'success' | 'error' | 'timeout';
+  status: 'success' | 'error' | 'timeout' | 'cancelled';
 }
 
 export class PythonExecutionTool extends BaseTool {
@@ -23,7 +29,7 @@ export class PythonExecutionTool extends BaseTool {
     capture_output: { type: 'boolean', default: true, description: 'Capture stdout and stderr' }
   };
 
-  async execute(parameters: any) {
+  async execute(parameters: any, context: ToolContext = {}) {
     const { result, executionTime } = await this.measureExecutionTime(async () => {
       const validation = this.validateParameters(parameters, ['code']);
       if (!validation.isValid) {
@@ -37,10 +43,24 @@ export class PythonExecutionTool extends BaseTool {
         throw new Error('Code contains potentially unsafe operations');
       }
 
-      const executionResult = await this.executePythonCode(code, timeout, capture_output);
+      // A run may not take longer than the execution time left in the user's quota
+      const remainingMs = context.userId ? await assertQuota(context.userId, 'executionMs') : null;
+      const allowedTimeout = remainingMs === null ? timeout : Math.min(timeout, Math.ceil(remainingMs / 1000));
+
+      const release = pythonProcesses.tryAcquire();
+      if (!release) {
+        throw new RateLimitError('Too many Python executions are running; try again shortly', BUSY_RETRY_AFTER_MS);
+      }
+
+      let executionResult: PythonExecutionResult;
+      try {
+        executionResult = await this.executePythonCode(code, allowedTimeout, capture_output, context.signal);
+      } finally {
+        release();
+      }
       
       // Log execution to database
-      await this.logExecution(code, executionResult);
+      await this.logExecution(code, executionResult, context.userId);
 
       return executionResult;
     });
@@ -72,7 +92,7 @@ export class PythonExecutionTool extends BaseTool {
     return unsafePatterns.some(pattern => pattern.test(code));
   }
 
-  private async executePythonCode(code: string, timeout: number, captureOutput: boolean): Promise<PythonExecutionResult> {
+  private async executePythonCode(code: string, timeout: number, captureOutput: boolean, signal?: AbortSignal): Promise<PythonExecutionResult> {
     const tempDir = '/tmp/avilink-python';
     const tempFile = join(tempDir, `script_${Date.now()}.py`);
 
@@ -88,7 +108,7 @@ export class PythonExecutionTool extends BaseTool {
 
       // Execute Python code
       const executionStart = Date.now();
-      const result = await this.runPythonProcess(tempFile, timeout, captureOutput);
+      const result = await this.runPythonProcess(tempFile, timeout, captureOutput, signal);
       const executionTime = Date.now() - executionStart;
 
       return {
@@ -157,11 +177,18 @@ finally:
 `;
   }
 
-  private runPythonProcess(scriptPath: string, timeout: number, captureOutput: boolean): Promise<PythonExecutionResult> {
+  // The process is killed when it exceeds the timeout or the signal fires
+  private runPythonProcess(scriptPath: string, timeout: number, captureOutput: boolean, signal?: AbortSignal): Promise<PythonExecutionResult> {
     return new Promise((resolve) => {
       let output = '';
       let error = '';
       let timedOut = false;
+      let cancelled = false;
+
+      if (signal?.aborted) {
+        resolve({ code: '', output: '', error: 'Execution cancelled', execution_time: 0, status: 'cancelled' });
+        return;
+      }
 
       const pythonProcess = spawn('python3', [scriptPath], {
         stdio: captureOutput ? 'pipe' : 'inherit',
@@ -174,6 +201,12 @@ finally:
         pythonProcess.kill('SIGKILL');
       }, timeout * 1000);
 
+      const onAbort = () => {
+        cancelled = true;
+        pythonProcess.kill('SIGKILL');
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       if (captureOutput) {
         pythonProcess.stdout?.on('data', (data) => {
           output += data.toString();
@@ -186,6 +219,18 @@ finally:
 
       pythonProcess.on('close', (code) => {
         clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+
+        if (cancelled) {
+          resolve({
+            code: '',
+            output: this.parseOutput(output),
+            error: 'Execution cancelled',
+            execution_time: 0,
+            status: 'cancelled'
+          });
+          return;
+        }
 
         if (timedOut) {
           resolve({
@@ -213,6 +258,7 @@ finally:
 
       pythonProcess.on('error', (err) => {
         clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
         resolve({
           code: '',
           output: '',
@@ -252,21 +298,14 @@ finally:
     return error.trim() || null;
   }
 
-  private async logExecution(code: string, result: PythonExecutionResult) {
-    try {
-      // Get or create default user
-      const user = await prisma.user.upsert({
-        where: { sessionId: 'default-session' },
-        update: {},
-        create: {
-          sessionId: 'default-session',
-          language: 'en'
-        }
-      });
+  // Executions are recorded for the user who ran them; calls without a user are not logged
+  private async logExecution(code: string, result: PythonExecutionResult, userId?: string) {
+    if (!userId) return;
 
+    try {
       await prisma.codeExecution.create({
         data: {
-          userId: user.id,
+          userId,
           language: 'python',
           code,
           output: result.output,
@@ -2,12 +2,15 @@ import { DeepSearchTool } from './deep-search-tool';
 import { PythonExecutionTool } from './python-execution-tool';
 import { FileProcessingTool } from './file-processing-tool';
 import { WebBrowsingTool } from './web-browsing-tool';
+import { ToolContext } from './base-tool';
+import { LLMToolDefinition } from '@/lib/llm';
 
 export interface Tool {
   name: string;
   description: string;
   parameters: Record<string, any>;
-  execute(parameters: any): Promise<any>;
+  usesLLM?: boolean;
+  execute(parameters: any, context?: ToolContext): Promise<any>;
 }
 
 export class ToolRegistry {
@@ -42,6 +45,37 @@ export class ToolRegistry {
     }));
   }
 
+  // Tool definitions in the JSON Schema form LLM providers expect for native tool calling,
+  // optionally limited to the given tool names
+  getToolDefinitions(names?: string[] | null): LLMToolDefinition[] {
+    const tools = Array.from(this.tools.values()).filter(tool => !names || names.includes(tool.name));
+    return tools.map(tool => {
+      const properties: Record<string, any> = {};
+      const required: string[] = [];
+
+      Object.entries(tool.parameters).forEach(([name, spec]) => {
+        properties[name] = {
+          type: spec.type,
+          ...(spec.description ? { description: spec.description } : {}),
+          ...(spec.default !== undefined ? { default: spec.default } : {})
+        };
+        if (spec.required) {
+          required.push(name);
+        }
+      });
+
+      return {
+        name: tool.name,
+        description: tool.description,
+        parameters: {
+          type: 'object',
+          properties,
+          ...(required.length > 0 ? { required } : {})
+        }
+      };
+    });
+  }
+
   registerTool(tool: Tool) {
     this.tools.set(tool.name, tool);
   }
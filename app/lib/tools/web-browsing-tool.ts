@@ -1,4 +1,5 @@
-import { BaseTool } from './base-tool';
+import { BaseTool, ToolContext } from './base-tool';
+import { LLMAbortedError, LLMClient, throwIfAborted } from '@/lib/llm';
 
 interface WebBrowsingResult {
   url: string;
@@ -17,6 +18,7 @@ interface WebBrowsingResult {
 
 export class WebBrowsingTool extends BaseTool {
   name = 'web_browsing';
+  usesLLM = true;
   description = 'Browse web pages, extract content, and analyze web content. Can fetch page content, extract links, and provide analysis.';
   parameters = {
     url: { type: 'string', required: true, description: 'URL to browse and analyze' },
@@ -25,7 +27,7 @@ export class WebBrowsingTool extends BaseTool {
     specific_query: { type: 'string', description: 'Specific question or query about the web page' }
   };
 
-  async execute(parameters: any) {
+  async execute(parameters: any, context: ToolContext = {}) {
     const { result, executionTime } = await this.measureExecutionTime(async () => {
       const validation = this.validateParameters(parameters, ['url']);
       if (!validation.isValid) {
@@ -39,7 +41,8 @@ export class WebBrowsingTool extends BaseTool {
         throw new Error('Invalid URL provided');
       }
 
-      const browsingResult = await this.browseWebPage(url, action, analyze_content, specific_query);
+      const client = this.getLLMClient(context);
+      const browsingResult = await this.browseWebPage(client, url, action, analyze_content, specific_query, context.signal);
       
       return browsingResult;
     });
@@ -60,26 +63,32 @@ export class WebBrowsingTool extends BaseTool {
     }
   }
 
-  private async browseWebPage(url: string, action: string, analyzeContent: boolean, specificQuery?: string): Promise<WebBrowsingResult> {
+  private async browseWebPage(client: LLMClient, url: string, action: string, analyzeContent: boolean, specificQuery?: string, signal?: AbortSignal): Promise<WebBrowsingResult> {
     const startTime = Date.now();
     
     try {
-      // Fetch the web page
+      // Fetch the web page, giving up on timeout or when the turn is cancelled
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 10000);
+      const onAbort = () => controller.abort();
+      signal?.addEventListener('abort', onAbort, { once: true });
       
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'Avilink-AI-Agent/1.0 (Web Browsing Tool)',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate',
-          'Connection': 'keep-alive',
-        },
-        signal: controller.signal
-      });
-      
-      clearTimeout(timeoutId);
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          headers: {
+            'User-Agent': 'Avilink-AI-Agent/1.0 (Web Browsing Tool)',
+            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+            'Accept-Language': 'en-US,en;q=0.5',
+            'Accept-Encoding': 'gzip, deflate',
+            'Connection': 'keep-alive',
+          },
+          signal: controller.signal
+        });
+      } finally {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+      }
 
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -97,7 +106,7 @@ export class WebBrowsingTool extends BaseTool {
 
       let analysis = '';
       if (analyzeContent && textContent) {
-        analysis = await this.analyzeContent(textContent, url, specificQuery);
+        analysis = await this.analyzeContent(client, textContent, url, specificQuery, signal);
       }
 
       return {
@@ -116,6 +125,9 @@ export class WebBrowsingTool extends BaseTool {
       };
 
     } catch (error) {
+      // A cancelled turn fails the tool run instead of reporting the page as unreachable
+      if (error instanceof LLMAbortedError) throw error;
+      throwIfAborted(signal);
       return {
         url,
         title: '',
@@ -191,43 +203,32 @@ export class WebBrowsingTool extends BaseTool {
     return images;
   }
 
-  private async analyzeContent(content: string, url: string, specificQuery?: string): Promise<string> {
+  private async analyzeContent(client: LLMClient, content: string, url: string, specificQuery?: string, signal?: AbortSignal): Promise<string> {
     try {
       const analysisPrompt = specificQuery 
         ? `Analyze this web page content and answer this specific question: ${specificQuery}\n\nWeb page URL: ${url}\n\nContent: ${content.substring(0, 8000)}`
         : `Analyze this web page content. Provide a summary of the main topic, key points, and important information.\n\nWeb page URL: ${url}\n\nContent: ${content.substring(0, 8000)}`;
 
-      const apiKey = process.env.OPENAI_API_KEY || process.env.ANTHROPIC_API_KEY || process.env.DEEPSEEK_API_KEY;
-      const apiUrl = process.env.OPENAI_API_KEY ? 'https://api.openai.com/v1/chat/completions' : 'https://api.anthropic.com/v1/messages';
-      
-      const llmResponse = await fetch(apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${apiKey}`
-        },
-        body: JSON.stringify({
-          model: process.env.OPENAI_API_KEY ? 'gpt-4' : 'claude-3-sonnet-20240229',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a web content analyst. Analyze web pages and provide clear, structured summaries and insights.'
-            },
-            {
-              role: 'user',
-              content: analysisPrompt
-            }
-          ],
-          temperature: 0.3,
-          max_tokens: 2000
-        })
+      const llmResponse = await client.chat({
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a web content analyst. Analyze web pages and provide clear, structured summaries and insights.'
+          },
+          {
+            role: 'user',
+            content: analysisPrompt
+          }
+        ],
+        temperature: 0.3,
+        maxTokens: 2000,
+        signal
       });
 
-      if (llmResponse.ok) {
-        const llmData = await llmResponse.json();
-        return llmData.choices?.[0]?.message?.content || llmData.content?.[0]?.text || 'Content analysis not available';
-      }
+      return llmResponse.content || 'Content analysis not available';
     } catch (error) {
+      if (error instanceof LLMAbortedError) throw error;
+      throwIfAborted(signal);
       console.error('Content analysis error:', error);
     }
 
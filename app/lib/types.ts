@@ -2,7 +2,8 @@
 
 export interface User {
   id: string
-  sessionId: string
+  email?: string | null
+  name?: string | null
   language: string
   preferences?: Record<string, any>
   createdAt: Date
@@ -12,24 +13,76 @@ export interface User {
 export interface Conversation {
   id: string
   title?: string
-  userId: string
+  // Unset on the placeholders the client shows before a conversation is saved
+  userId?: string
   messages: Message[]
   isArchived: boolean
   metadata?: Record<string, any>
+  // Last message of the branch that is shown and continued
+  activeLeafId?: string | null
+  // Set on list views that leave the messages out
+  messageCount?: number
+  lastMessage?: Pick<Message, 'role' | 'content' | 'createdAt'> | null
+  // Generated one-paragraph summary, for previews
+  summary?: string | null
+  folderId?: string | null
+  tags?: string[]
+  isPinned?: boolean
   createdAt: Date
   updatedAt: Date
 }
 
+export interface Folder {
+  id: string
+  name: string
+  color?: string | null
+  position: number
+  // Non-archived conversations in the folder
+  conversationCount?: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Query of the conversation list; `folderId: 'none'` selects conversations outside any folder
+export interface ConversationFilters {
+  folderId?: string
+  tags?: string[]
+  pinned?: boolean
+  archived?: boolean
+}
+
 export interface Message {
   id: string
   conversationId: string
+  // Previous message in the branch; null for the first one
+  parentId?: string | null
   role: 'user' | 'assistant' | 'system' | 'tool'
   content: string
   metadata?: Record<string, any>
+  // Alternatives to this message from edits or regenerations, itself included, oldest first
+  siblingIds?: string[]
   createdAt: Date
   updatedAt: Date
 }
 
+/**
+ * An uploaded file attached to a user message, as recorded in its `metadata.attachments`
+ * along with what of it the model was sent:
+ * - full / truncated: the extracted text, or its beginning when over budget
+ * - analysis: no text, but the summary written by the file tool
+ * - reference: only the file name, so the model can call the file tool on it
+ * - unavailable: the file has been deleted since
+ */
+export interface MessageAttachment {
+  fileId: string
+  name: string
+  type: string
+  size: number
+  included: 'full' | 'truncated' | 'analysis' | 'reference' | 'unavailable'
+  includedChars: number
+  totalChars: number
+}
+
 export interface FileUpload {
   id: string
   userId: string
@@ -48,9 +101,10 @@ export interface FileUpload {
 export interface LLMConfiguration {
   id: string
   userId: string
-  provider: 'openai' | 'anthropic' | 'deepseek' | 'gemini'
+  provider: 'openai' | 'anthropic' | 'deepseek' | 'gemini' | 'local' | 'mock'
   model: string
   apiKey: string
+  baseUrl?: string | null
   isDefault: boolean
   parameters?: {
     temperature?: number
@@ -64,6 +118,27 @@ export interface LLMConfiguration {
   updatedAt: Date
 }
 
+// Shape returned by /api/llm-configs: the stored key is never sent back in full
+export type LLMConfigurationSummary = Omit<LLMConfiguration, 'apiKey' | 'userId'> & {
+  apiKeyPreview: string | null
+}
+
+export interface Persona {
+  id: string
+  name: string
+  description?: string | null
+  // May use {{date}}, {{datetime}}, {{language}}, {{tools}} and {{tool_names}}
+  systemPrompt: string
+  provider?: LLMConfiguration['provider'] | null
+  model?: string | null
+  temperature?: number | null
+  // Null enables every tool
+  enabledTools: string[] | null
+  isDefault: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
 export interface ToolExecution {
   toolName: string
   parameters: Record<string, any>
@@ -96,7 +171,7 @@ export interface CodeExecution {
   code: string
   output?: string
   error?: string
-  status: 'running' | 'completed' | 'error' | 'timeout'
+  status: 'running' | 'completed' | 'error' | 'timeout' | 'cancelled'
   duration?: number
   executedAt: Date
 }
@@ -132,6 +207,16 @@ export interface SidebarProps {
   currentConversation?: Conversation
   onSelectConversation: (conversation: Conversation) => void
   onCreateNew: () => void
+  folders?: Folder[]
+  tags?: Array<{ tag: string; count: number }>
+  filters?: ConversationFilters
+  onFiltersChange?: (filters: ConversationFilters) => void
+  onPinConversation?: (conversationId: string, isPinned: boolean) => void
+  onMoveToFolder?: (conversationId: string, folderId: string | null) => void
+  onUpdateTags?: (conversationId: string, tags: string[]) => void
+  onCreateFolder?: (name: string, color?: string) => void
+  onRenameFolder?: (folderId: string, name: string) => void
+  onDeleteFolder?: (folderId: string) => void
 }
 
 export interface HeaderProps {
@@ -176,6 +261,76 @@ export interface ChatResponse {
   message: Message
 }
 
+// Events sent by POST /api/chat, and by the edit and regenerate message endpoints, when
+// `stream: true` (SSE event name matches `type`)
+export type ChatStreamEvent =
+  | { type: 'start'; conversationId: string; userMessageId: string; attachments?: MessageAttachment[] }
+  | { type: 'delta'; content: string }
+  | { type: 'tool_call'; toolCallId: string; toolName: string; arguments: Record<string, any> }
+  | { type: 'tool_result'; toolCallId: string; toolName: string; result: ToolResult }
+  | {
+      type: 'message_saved'
+      conversationId: string
+      message: Pick<Message, 'id' | 'parentId' | 'role' | 'content' | 'createdAt' | 'metadata'>
+    }
+  // Title after a summary refresh (a title the user set is kept) and the new summary
+  | { type: 'conversation_updated'; conversationId: string; title: string | null; summary: string }
+  | { type: 'error'; error: string }
+
+// A read-only link to a conversation, as listed to its owner
+export interface ConversationShare {
+  id: string
+  conversationId: string
+  token: string
+  // Path of the public page, relative to the app's origin
+  url: string
+  frozen: boolean
+  frozenMessageId?: string | null
+  expiresAt?: Date | null
+  revokedAt?: Date | null
+  status: 'active' | 'expired' | 'revoked'
+  createdAt: Date
+}
+
+// A message as shown through a public share link
+export interface SharedMessage {
+  id: string
+  role: 'user' | 'assistant' | 'tool'
+  content: string
+  createdAt: Date
+  attachments?: Array<{ name?: string; type?: string; size?: number }>
+  toolCalls?: Array<{ toolName: string; success: boolean }>
+  tool?: { name: string; parameters: Record<string, any>; result: unknown }
+}
+
+export interface SharedConversation {
+  title?: string | null
+  // Frozen shares stop at the message that was last when the link was created
+  frozen: boolean
+  sharedAt: Date
+  expiresAt?: Date | null
+  messages: SharedMessage[]
+}
+
+export type SearchHitType = 'message' | 'conversation' | 'file'
+
+// A result from GET /api/search
+export interface SearchHit {
+  type: SearchHitType
+  id: string
+  rank: number
+  // HTML-escaped excerpt with the matched terms wrapped in <mark>
+  snippet: string
+  conversationId?: string
+  conversationTitle?: string | null
+  role?: Message['role']
+  toolName?: string | null
+  fileName?: string
+  createdAt: Date
+  // Opens the conversation at the hit; files have no conversation to open
+  url?: string
+}
+
 export interface FileUploadResponse {
   fileId: string
   filename: string
@@ -0,0 +1,226 @@
+import { createHash, randomBytes } from 'crypto'
+import { NextResponse } from 'next/server'
+import { User, WorkspaceInvitation } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { normalizeEmail } from '@/lib/auth'
+
+export const WORKSPACE_ROLES = ['owner', 'editor', 'viewer'] as const
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number]
+// `read` lists and opens, `write` chats, uploads and runs tools, `manage` runs the workspace itself
+export type WorkspaceAction = 'read' | 'write' | 'manage'
+
+const ROLE_ACTIONS: Record<WorkspaceRole, WorkspaceAction[]> = {
+  owner: ['read', 'write', 'manage'],
+  editor: ['read', 'write'],
+  viewer: ['read'],
+}
+
+const ACTION_LABELS: Record<WorkspaceAction, string> = {
+  read: 'viewing its content',
+  write: 'changing its content',
+  manage: 'managing it',
+}
+
+// Scripts pick a workspace per request; `personal` selects the caller's own space
+export const WORKSPACE_HEADER = 'x-workspace-id'
+const PERSONAL = 'personal'
+const MAX_NAME_LENGTH = 100
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+const INVITATION_PREFIX = 'avi_'
+
+export class WorkspaceError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'WorkspaceError'
+  }
+}
+
+export interface WorkspaceScope {
+  // Null for the user's personal space, where they are the owner of everything
+  workspaceId: string | null
+  role: WorkspaceRole
+}
+
+export function isWorkspaceRole(value: unknown): value is WorkspaceRole {
+  return typeof value === 'string' && (WORKSPACE_ROLES as readonly string[]).includes(value)
+}
+
+export function canAccess(role: WorkspaceRole | null, action: WorkspaceAction): boolean {
+  return !!role && ROLE_ACTIONS[role].includes(action)
+}
+
+export function parseWorkspaceName(value: unknown): { data: string; error?: undefined } | { data?: undefined; error: string } {
+  if (typeof value !== 'string' || !value.trim()) {
+    return { error: 'Name is required' }
+  }
+  return { data: value.trim().slice(0, MAX_NAME_LENGTH) }
+}
+
+// The user's role in a workspace, or null when they are not a member; everyone owns their personal space
+export async function getWorkspaceRole(userId: string, workspaceId: string | null): Promise<WorkspaceRole | null> {
+  if (!workspaceId) return 'owner'
+
+  const membership = await prisma.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+  })
+  return membership && isWorkspaceRole(membership.role) ? membership.role : null
+}
+
+/**
+ * The space a request works in: the workspace named by the `X-Workspace-Id` header, else the
+ * user's active workspace, else their personal space. Null when the header names a workspace
+ * the user is not a member of; an active workspace they have since left counts as personal.
+ */
+export async function resolveWorkspaceScope(
+  request: Request,
+  user: Pick<User, 'id' | 'activeWorkspaceId'>
+): Promise<WorkspaceScope | null> {
+  const header = request.headers.get(WORKSPACE_HEADER)?.trim()
+  if (header) {
+    if (header === PERSONAL) return { workspaceId: null, role: 'owner' }
+    const role = await getWorkspaceRole(user.id, header)
+    return role ? { workspaceId: header, role } : null
+  }
+
+  if (user.activeWorkspaceId) {
+    const role = await getWorkspaceRole(user.id, user.activeWorkspaceId)
+    if (role) return { workspaceId: user.activeWorkspaceId, role }
+  }
+  return { workspaceId: null, role: 'owner' }
+}
+
+// Conversations and files in the scope: a workspace's, or the user's own outside any workspace
+export function scopeFilter(userId: string, workspaceId: string | null) {
+  return workspaceId ? { workspaceId } : { userId, workspaceId: null }
+}
+
+// Conversations and files the user may open by id, whichever workspace is active
+export function accessibleBy(userId: string) {
+  return {
+    OR: [
+      { userId, workspaceId: null },
+      { workspace: { members: { some: { userId } } } },
+    ],
+  }
+}
+
+// Tools a workspace's owners turned off for its members
+export async function getDisabledTools(workspaceId: string | null): Promise<string[]> {
+  if (!workspaceId) return []
+
+  const overrides = await prisma.toolConfiguration.findMany({
+    where: { workspaceId, isEnabled: false },
+    select: { name: true },
+  })
+  return overrides.map(override => override.name)
+}
+
+export function workspaceNotFound() {
+  return NextResponse.json({ error: 'Workspace not found' }, { status: 404 })
+}
+
+export function workspaceForbidden(action: WorkspaceAction) {
+  return NextResponse.json(
+    { error: `Your role in this workspace does not allow ${ACTION_LABELS[action]}` },
+    { status: 403 }
+  )
+}
+
+function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// Never includes the hash; the token itself is only returned once, when the invitation is created
+export function serializeInvitation(invitation: WorkspaceInvitation) {
+  return {
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role,
+    expiresAt: invitation.expiresAt,
+    acceptedAt: invitation.acceptedAt,
+    status: invitation.acceptedAt ? 'accepted' : invitation.expiresAt.getTime() > Date.now() ? 'pending' : 'expired',
+    createdAt: invitation.createdAt,
+  }
+}
+
+/**
+ * Invites an email address to a workspace. Returns the invitation and its token, which the
+ * invitee presents to `/api/workspaces/invitations/accept` once signed in with that email.
+ */
+export async function createInvitation(input: { workspaceId: string; email: string; role: WorkspaceRole; invitedById: string }) {
+  const email = normalizeEmail(input.email)
+  const existing = await prisma.workspaceMember.findFirst({
+    where: { workspaceId: input.workspaceId, user: { email } },
+  })
+  if (existing) {
+    throw new WorkspaceError('This person is already a member of the workspace', 409)
+  }
+
+  const token = INVITATION_PREFIX + randomBytes(32).toString('base64url')
+  const invitation = await prisma.workspaceInvitation.create({
+    data: {
+      workspaceId: input.workspaceId,
+      email,
+      role: input.role,
+      tokenHash: hashInvitationToken(token),
+      invitedById: input.invitedById,
+      expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+    },
+  })
+  return { invitation, token }
+}
+
+// Makes the user a member with the invited role; the invitation is for their email only and works once
+export async function acceptInvitation(user: Pick<User, 'id' | 'email'>, token: string) {
+  const invitation = await prisma.workspaceInvitation.findUnique({
+    where: { tokenHash: hashInvitationToken(token) },
+  })
+  if (!invitation || invitation.acceptedAt || invitation.expiresAt.getTime() <= Date.now()) {
+    throw new WorkspaceError('Invitation not found or expired', 404)
+  }
+  if (!user.email || normalizeEmail(user.email) !== invitation.email) {
+    throw new WorkspaceError('This invitation is for a different email address', 403)
+  }
+  if (await getWorkspaceRole(user.id, invitation.workspaceId)) {
+    throw new WorkspaceError('You are already a member of this workspace', 409)
+  }
+
+  const [membership] = await prisma.$transaction([
+    prisma.workspaceMember.create({
+      data: { workspaceId: invitation.workspaceId, userId: user.id, role: invitation.role },
+      include: { workspace: true },
+    }),
+    prisma.workspaceInvitation.update({ where: { id: invitation.id }, data: { acceptedAt: new Date() } }),
+  ])
+  return membership
+}
+
+/**
+ * Changes a member's role, or removes them when `role` is null. A workspace always keeps at
+ * least one owner. Removed members who had the workspace active go back to their personal space.
+ */
+export async function updateMembership(workspaceId: string, userId: string, role: WorkspaceRole | null) {
+  const membership = await prisma.workspaceMember.findUnique({
+    where: { workspaceId_userId: { workspaceId, userId } },
+  })
+  if (!membership) {
+    throw new WorkspaceError('Member not found', 404)
+  }
+
+  if (membership.role === 'owner' && role !== 'owner') {
+    const owners = await prisma.workspaceMember.count({ where: { workspaceId, role: 'owner' } })
+    if (owners <= 1) {
+      throw new WorkspaceError('A workspace needs at least one owner', 409)
+    }
+  }
+
+  if (role) {
+    return prisma.workspaceMember.update({ where: { id: membership.id }, data: { role } })
+  }
+
+  await prisma.$transaction([
+    prisma.workspaceMember.delete({ where: { id: membership.id } }),
+    prisma.user.updateMany({ where: { id: userId, activeWorkspaceId: workspaceId }, data: { activeWorkspaceId: null } }),
+  ])
+  return null
+}
@@ -0,0 +1,7 @@
+export { default } from 'next-auth/middleware';
+
+// Pages need a signed-in user; API routes check the session themselves and answer 401.
+// Shared conversations and the sign-in page stay public.
+export const config = {
+  matcher: ['/((?!api|login|share|_next/static|_next/image|favicon.ico).*)']
+};
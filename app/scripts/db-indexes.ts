@@ -0,0 +1,38 @@
+import { prisma } from '@/lib/db'
+import { createSearchIndexes } from '@/lib/search'
+
+const GLOBAL_TOOL_CONFIGURATION_INDEX = 'tool_configurations_name_version_global_key'
+
+/**
+ * Postgres treats NULLs as distinct, so @@unique([name, version, workspaceId]) lets two global
+ * tool configurations (no workspace) share a name and version; this partial index does not.
+ * Fails if such duplicates already exist, naming them, so they can be removed first.
+ */
+async function createToolConfigurationIndex(): Promise<string[]> {
+  const existing = await prisma.$queryRaw<Array<{ valid: boolean }>>`
+    SELECT i.indisvalid AS valid FROM pg_class c JOIN pg_index i ON i.indexrelid = c.oid
+    WHERE c.relname = ${GLOBAL_TOOL_CONFIGURATION_INDEX}
+  `
+  if (existing[0]?.valid) return []
+
+  if (existing.length > 0) {
+    await prisma.$executeRawUnsafe(`DROP INDEX CONCURRENTLY IF EXISTS ${GLOBAL_TOOL_CONFIGURATION_INDEX}`)
+  }
+  await prisma.$executeRawUnsafe(
+    `CREATE UNIQUE INDEX CONCURRENTLY ${GLOBAL_TOOL_CONFIGURATION_INDEX} ON tool_configurations (name, version) WHERE "workspaceId" IS NULL`
+  )
+  return [GLOBAL_TOOL_CONFIGURATION_INDEX]
+}
+
+// Builds the indexes schema.prisma cannot declare; run after `prisma migrate deploy` and whenever SEARCH_TEXT_CONFIG changes
+async function main() {
+  const created = [...(await createToolConfigurationIndex()), ...(await createSearchIndexes())]
+  console.log(created.length > 0 ? `Created indexes: ${created.join(', ')}` : 'Indexes are up to date')
+}
+
+main()
+  .catch(error => {
+    console.error('Failed to create indexes:', error)
+    process.exitCode = 1
+  })
+  .finally(() => prisma.$disconnect())
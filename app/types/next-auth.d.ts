@@ -0,0 +1,14 @@
+import { DefaultSession } from 'next-auth'
+
+// The user id is carried in the JWT and exposed on the session for server-side lookups
+declare module 'next-auth' {
+  interface Session {
+    user: DefaultSession['user'] & { id: string }
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    userId?: string
+  }
+}
@@ -48,6 +48,7 @@ sleep 10
 
 echo "🔄 Running database migrations..."
 docker-compose run --rm avilink-app npx prisma migrate deploy
+docker-compose run --rm avilink-app npm run db:indexes
 
 echo "🌱 Seeding database (if seed script exists)..."
 docker-compose run --rm avilink-app npx prisma db seed || echo "No seed script found, skipping..."